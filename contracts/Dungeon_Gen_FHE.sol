@@ -1,12 +1,10 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract DungeonGenFHE is SepoliaConfig {
-    using FHE for euint32;
-    using FHE for ebool;
-
     address public owner;
     mapping(address => bool) public providers;
     bool public paused;
@@ -24,10 +22,10 @@ contract DungeonGenFHE is SepoliaConfig {
     struct Batch {
         uint256 id;
         bool open;
-        uint256 totalEncryptedPartyStrength; // euint32 ciphertext
-        uint256 totalEncryptedPartyAgility;  // euint32 ciphertext
-        uint256 totalEncryptedPartyIntellect; // euint32 ciphertext
-        uint256 dungeonSeed; // euint32 ciphertext
+        euint32 totalEncryptedPartyStrength;
+        euint32 totalEncryptedPartyAgility;
+        euint32 totalEncryptedPartyIntellect;
+        euint32 dungeonSeed;
     }
     mapping(uint256 => Batch) public batches;
     uint256 public currentBatchId = 1;
@@ -50,8 +48,9 @@ contract DungeonGenFHE is SepoliaConfig {
     event ContractUnpaused();
     event CooldownSecondsChanged(uint256 oldCooldown, uint256 newCooldown);
     event BatchOpened(uint256 indexed batchId);
-    event BatchClosed(uint256 indexed batchId);
-    event PartyAttributesSubmitted(uint256 indexed batchId, address indexed provider);
+    event BatchFinalized(uint256 indexed batchId);
+    // partyId groups the submissions of one party, so a provider can run several parties in one batch
+    event PartyAttributesSubmitted(uint256 indexed batchId, address indexed provider, bytes32 indexed partyId);
     event DungeonSeedGenerated(uint256 indexed batchId);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 strength, uint256 agility, uint256 intellect, uint256 seed);
@@ -112,22 +111,17 @@ contract DungeonGenFHE is SepoliaConfig {
     }
 
     function openBatch() external onlyOwner whenNotPaused {
-        if (batches[currentBatchId].open) {
+        // Every batch gets a fresh id so closed batches are never overwritten
+        if (batches[currentBatchId].id != 0) {
             currentBatchId++;
         }
-        batches[currentBatchId] = Batch({
-            id: currentBatchId,
-            open: true,
-            totalEncryptedPartyStrength: 0, // Initialized to zero ciphertext
-            totalEncryptedPartyAgility: 0,  // Initialized to zero ciphertext
-            totalEncryptedPartyIntellect: 0, // Initialized to zero ciphertext
-            dungeonSeed: 0 // Initialized to zero ciphertext
-        });
-        // Initialize FHE context for the batch's encrypted fields
-        _initIfNeeded(euint32.wrap(batches[currentBatchId].totalEncryptedPartyStrength));
-        _initIfNeeded(euint32.wrap(batches[currentBatchId].totalEncryptedPartyAgility));
-        _initIfNeeded(euint32.wrap(batches[currentBatchId].totalEncryptedPartyIntellect));
-        _initIfNeeded(euint32.wrap(batches[currentBatchId].dungeonSeed));
+        Batch storage batch = batches[currentBatchId];
+        batch.id = currentBatchId;
+        batch.open = true;
+        // Initialize the encrypted totals to zero ciphertexts
+        batch.totalEncryptedPartyStrength = _zero();
+        batch.totalEncryptedPartyAgility = _zero();
+        batch.totalEncryptedPartyIntellect = _zero();
 
         emit BatchOpened(currentBatchId);
     }
@@ -135,13 +129,15 @@ contract DungeonGenFHE is SepoliaConfig {
     function closeBatch() external onlyOwner whenNotPaused {
         if (!batches[currentBatchId].open) revert BatchClosed();
         batches[currentBatchId].open = false;
-        emit BatchClosed(currentBatchId);
+        emit BatchFinalized(currentBatchId);
     }
 
     function submitPartyAttributes(
-        euint32 encryptedStrength,
-        euint32 encryptedAgility,
-        euint32 encryptedIntellect
+        externalEuint32 encryptedStrength,
+        externalEuint32 encryptedAgility,
+        externalEuint32 encryptedIntellect,
+        bytes calldata inputProof,
+        bytes32 partyId
     ) external onlyProvider whenNotPaused {
         if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
@@ -150,19 +146,37 @@ contract DungeonGenFHE is SepoliaConfig {
 
         lastSubmissionTime[msg.sender] = block.timestamp;
 
-        euint32 memory currentEncryptedStrength = euint32.wrap(batches[currentBatchId].totalEncryptedPartyStrength);
-        euint32 memory currentEncryptedAgility = euint32.wrap(batches[currentBatchId].totalEncryptedPartyAgility);
-        euint32 memory currentEncryptedIntellect = euint32.wrap(batches[currentBatchId].totalEncryptedPartyIntellect);
-
-        euint32 memory newEncryptedStrength = FHE.add(currentEncryptedStrength, encryptedStrength);
-        euint32 memory newEncryptedAgility = FHE.add(currentEncryptedAgility, encryptedAgility);
-        euint32 memory newEncryptedIntellect = FHE.add(currentEncryptedIntellect, encryptedIntellect);
+        Batch storage batch = batches[currentBatchId];
+        batch.totalEncryptedPartyStrength = FHE.allowThis(
+            FHE.add(batch.totalEncryptedPartyStrength, FHE.fromExternal(encryptedStrength, inputProof))
+        );
+        batch.totalEncryptedPartyAgility = FHE.allowThis(
+            FHE.add(batch.totalEncryptedPartyAgility, FHE.fromExternal(encryptedAgility, inputProof))
+        );
+        batch.totalEncryptedPartyIntellect = FHE.allowThis(
+            FHE.add(batch.totalEncryptedPartyIntellect, FHE.fromExternal(encryptedIntellect, inputProof))
+        );
+
+        // Submitters may user-decrypt the running totals through the relayer
+        _allowTotals(batch, msg.sender);
+
+        emit PartyAttributesSubmitted(currentBatchId, msg.sender, partyId);
+    }
 
-        batches[currentBatchId].totalEncryptedPartyStrength = newEncryptedStrength.toBytes32();
-        batches[currentBatchId].totalEncryptedPartyAgility = newEncryptedAgility.toBytes32();
-        batches[currentBatchId].totalEncryptedPartyIntellect = newEncryptedIntellect.toBytes32();
+    // Every submission replaces the total handles, so earlier submitters
+    // re-request access to the current ones before decrypting
+    function allowBatchTotals(uint256 batchId) external onlyProvider {
+        Batch storage batch = batches[batchId];
+        if (batch.id == 0) revert InvalidBatchId();
+        _allowTotals(batch, msg.sender);
+    }
 
-        emit PartyAttributesSubmitted(currentBatchId, msg.sender);
+    function hasTotalsAccess(uint256 batchId, address account) external view returns (bool) {
+        Batch storage batch = batches[batchId];
+        if (batch.id == 0) revert InvalidBatchId();
+        return FHE.isAllowed(batch.totalEncryptedPartyStrength, account)
+            && FHE.isAllowed(batch.totalEncryptedPartyAgility, account)
+            && FHE.isAllowed(batch.totalEncryptedPartyIntellect, account);
     }
 
     function generateDungeonSeed() external onlyProvider whenNotPaused {
@@ -173,25 +187,16 @@ contract DungeonGenFHE is SepoliaConfig {
 
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
 
-        euint32 memory strength = euint32.wrap(batches[currentBatchId].totalEncryptedPartyStrength);
-        euint32 memory agility = euint32.wrap(batches[currentBatchId].totalEncryptedPartyAgility);
-        euint32 memory intellect = euint32.wrap(batches[currentBatchId].totalEncryptedPartyIntellect);
+        Batch storage batch = batches[currentBatchId];
 
-        // Homomorphically compute dungeonSeed = (strength * agility + intellect) % (2^32 - 1)
+        // Homomorphically compute dungeonSeed = (strength * agility + intellect) mod 2^32
         // This is a placeholder for a more complex generation algorithm
-        euint32 memory tempProduct = FHE.mul(strength, agility);
-        euint32 memory tempSum = FHE.add(tempProduct, intellect);
-        euint32 memory seed = tempSum; // For simplicity, use sum as seed. Real game might have more complex logic.
-
-        batches[currentBatchId].dungeonSeed = seed.toBytes32();
+        euint32 tempProduct = FHE.mul(batch.totalEncryptedPartyStrength, batch.totalEncryptedPartyAgility);
+        batch.dungeonSeed = FHE.allowThis(FHE.add(tempProduct, batch.totalEncryptedPartyIntellect));
         emit DungeonSeedGenerated(currentBatchId);
 
         // Prepare for decryption
-        bytes32[] memory cts = new bytes32[](4);
-        cts[0] = batches[currentBatchId].totalEncryptedPartyStrength;
-        cts[1] = batches[currentBatchId].totalEncryptedPartyAgility;
-        cts[2] = batches[currentBatchId].totalEncryptedPartyIntellect;
-        cts[3] = batches[currentBatchId].dungeonSeed;
+        bytes32[] memory cts = _batchCiphertexts(batch);
 
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
@@ -217,13 +222,7 @@ contract DungeonGenFHE is SepoliaConfig {
         Batch storage batch = batches[ctx.batchId];
         if (batch.id == 0) revert InvalidBatchId(); // Check if batch exists
 
-        bytes32[] memory currentCts = new bytes32[](4);
-        currentCts[0] = batch.totalEncryptedPartyStrength;
-        currentCts[1] = batch.totalEncryptedPartyAgility;
-        currentCts[2] = batch.totalEncryptedPartyIntellect;
-        currentCts[3] = batch.dungeonSeed;
-
-        bytes32 currentHash = _hashCiphertexts(currentCts);
+        bytes32 currentHash = _hashCiphertexts(_batchCiphertexts(batch));
         // Security: State verification ensures that the contract's state (ciphertexts)
         // has not changed since the decryption request was made. This prevents
         // scenarios where an attacker could alter the state after the request
@@ -232,23 +231,34 @@ contract DungeonGenFHE is SepoliaConfig {
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        (uint256 strength, uint256 agility, uint256 intellect, uint256 seed) = abi.decode(cleartexts, (uint256, uint256, uint256, uint256));
+        (uint32 strength, uint32 agility, uint32 intellect, uint32 seed) = abi.decode(
+            cleartexts,
+            (uint32, uint32, uint32, uint32)
+        );
 
         ctx.processed = true;
         emit DecryptionCompleted(requestId, ctx.batchId, strength, agility, intellect, seed);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _batchCiphertexts(Batch storage batch) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](4);
+        cts[0] = FHE.toBytes32(batch.totalEncryptedPartyStrength);
+        cts[1] = FHE.toBytes32(batch.totalEncryptedPartyAgility);
+        cts[2] = FHE.toBytes32(batch.totalEncryptedPartyIntellect);
+        cts[3] = FHE.toBytes32(batch.dungeonSeed);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
-    function _initIfNeeded(euint32 memory x) internal {
-        if (!FHE.isInitialized(x)) {
-            FHE.asEuint32(0); // Initialize with a dummy value if not already initialized
-        }
+    function _allowTotals(Batch storage batch, address account) internal {
+        FHE.allow(batch.totalEncryptedPartyStrength, account);
+        FHE.allow(batch.totalEncryptedPartyAgility, account);
+        FHE.allow(batch.totalEncryptedPartyIntellect, account);
     }
 
-    function _requireInitialized(euint32 memory x) internal pure {
-        if (!FHE.isInitialized(x)) revert("FHE context not initialized");
+    function _zero() internal returns (euint32) {
+        return FHE.allowThis(FHE.asEuint32(0));
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+// Key-value store with UniversalAdapter's interface, for measuring what the
+// frontend's setData payloads cost. Not deployed; the app talks to the real
+// adapter at config.contractAddress.
+contract UniversalAdapterMock {
+    mapping(string => bytes) private data;
+
+    event DataStored(address indexed sender, string key, bytes value);
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+
+    function setData(string calldata key, bytes calldata value) external {
+        data[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return data[key];
+    }
+}
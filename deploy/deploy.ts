@@ -326,7 +326,7 @@ async function main() {
   }
 
   const DEFAULT_RPC = "https://sepolia.drpc.org";
-  const rpc = DEFAULT_RPC;
+  const rpc = process.env.RPC_URL || DEFAULT_RPC;
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
@@ -339,8 +339,18 @@ async function main() {
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
+    // The frontend event indexer backfills from here instead of block 0
+    const deployReceipt = await factory.deploymentTransaction()?.wait();
+    const deployBlock = deployReceipt?.blockNumber ?? 0;
     console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+    const DungeonGenFactory = await hardhatEthers.getContractFactory("DungeonGenFHE", wallet);
+    const dungeonGen = await DungeonGenFactory.deploy();
+    await dungeonGen.waitForDeployment();
+
+    const dungeonGenAddress = await dungeonGen.getAddress();
+    console.log("DungeonGenFHE contract deployed at:", dungeonGenAddress);
+
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
       const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
@@ -358,10 +368,14 @@ async function main() {
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
+      const { chainId } = await provider.getNetwork();
       const config = {
         network: rpc,
+        chainId: Number(chainId),
         contractAddress: deployedAddress,
+        dungeonGenAddress,
         deployer: wallet.address,
+        deployBlock,
       };
       fs.writeFileSync(
         path.join(frontendConfigDir, "config.json"),
@@ -369,6 +383,7 @@ async function main() {
       );
       console.log("Wrote frontend config: frontend/web/src/config.json");
 
+      // DungeonGenFHE's ABI ships with its typechain bindings in types/, so only the adapter is copied
       try {
         const artifactPath = path.join(
           __dirname,
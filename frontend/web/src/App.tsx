@@ -1,209 +1,610 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getContractReadOnly, getContractWithSigner, getDungeonGenReadOnly, getDungeonGenWithSigner, getBrowserSigner, getDecryptionTracker, getEventIndexer, getMulticall, getDungeonCache, config, normAddr, describeContractError } from "./contract";
+import { isUserRejection } from "./contractErrors";
+import { encryptPartyAttributes, PartyAttributes, userDecryptPartyTotals } from "./fhe";
+import { CURRENT_GENERATOR_VERSION, generatorVersions, getGenerator } from "./game/registry";
+import { RoomType } from "./game/dungeonMap";
+import {
+  ExplorationAction,
+  ExplorationOutcome,
+  ExplorationSetup,
+  ExplorationState,
+  applyAction,
+  availableMoves,
+  canRetreat,
+  canAscend,
+  canCastSpell,
+  canDescend,
+  canSolve,
+  decodeActions,
+  encodeActions,
+  replayExploration,
+  startExploration,
+  visibleTiles
+} from "./game/exploration";
+import { RULESET } from "./game/ruleset";
+import {
+  CHARACTER_CLASSES,
+  CharacterClass,
+  MAX_ATTRIBUTE,
+  MAX_PARTY_SIZE,
+  MIN_ATTRIBUTE,
+  PartyMember,
+  createMember,
+  partyTotals,
+  validateParty
+} from "./game/party";
+import AdminConsole from "./components/AdminConsole";
+import { dataWrites, latestData } from "./indexer/events";
+import {
+  LEGACY_KEYS_KEY,
+  dungeonIdsFromEvents,
+  encodeKeyList,
+  keyListsFromEvents,
+  mergeKeyLists,
+  ownerKeysKey,
+  parseKeyList,
+  recordKey,
+  dungeonCreator,
+  dungeonPartyId,
+  partyCreators
+} from "./indexer/dungeonKeys";
+import type { EventIndexer } from "./indexer/indexer";
+import type { TrackedDecryption } from "./decryptionTracker";
+import { useCooldowns } from "./cooldown";
+import { DecodedDungeonRecord, FloorSummary, MAX_CHARACTER_NAME_LENGTH, MAX_DUNGEON_NAME_LENGTH, StoredDungeonRecord, encodeDungeonRecord } from "./records/dungeonRecord";
+import { recordDomain, signDungeonRecord } from "./records/recordSignature";
+import { loadAuthorChecks } from "./records/authorChecks";
+import { RecordWrite, resolveRecord } from "./records/recordOwnership";
+import { dungeonPage, orderDungeonKeys } from "./records/dungeonPage";
+import type { Multicall } from "./multicall";
+import { layoutKey } from "./cache/dungeonCache";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { useMatch, useNavigate } from 'react-router-dom';
+
+// Ciphertext handles held by a DungeonGenFHE batch
+interface BatchCiphertexts {
+  strength: string;
+  agility: string;
+  intellect: string;
+  seed: string;
+}
+
+interface BatchState {
+  open: boolean;
+  ciphertexts: BatchCiphertexts;
+}
+
+interface BatchDecryption {
+  seed: number;
+  totals: PartyAttributes;
+}
+
+// The dungeon keys of one load, newest first, and how to build the records of any of them
+interface DungeonHistory {
+  keys: string[];
+  build(ids: string[]): Promise<{ list: DungeonRecord[]; rejected: RejectedRecord[] }>;
+}
+
+type StatusCounts = Record<DungeonRecord["status"], number>;
 
 interface DungeonRecord {
   id: string;
-  encryptedAttributes: string;
+  batchId: number;
   timestamp: number;
   owner: string;
   dungeonName: string;
   status: "generating" | "ready" | "completed";
   monstersDefeated: number;
   treasuresFound: number;
+  seed: number | null;
+  partyTotals: PartyAttributes | null;
+  outcome: ExplorationOutcome | null;
+  /** Encoded action log of the recorded run, replayable from the seed */
+  actionLog: string | null;
+  floorProgress: FloorSummary[];
+  /** Generator that built (and must rebuild) this dungeon's floors */
+  generatorVersion: number;
+  /** Characters the owner planned to submit; attributes stay encrypted */
+  partySize: number;
+  party: Pick<PartyMember, "name" | "characterClass">[];
+  /** PartyAttributesSubmitted events tagged with this dungeon's party id */
+  membersSubmitted: number;
 }
 
-// Randomly selected style: High Contrast (Red+Black), Retro Pixel, Center Radiation, Animation Rich
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+interface NewDungeonData {
+  dungeonName: string;
+  members: PartyMember[];
+}
+
+const emptyDungeonData = (): NewDungeonData => ({ dungeonName: "", members: [createMember("warrior", 0)] });
+
+// A dungeon_<id> value that failed validation, shown instead of silently dropped
+interface RejectedRecord {
+  dungeonId: string;
+  reason: string;
+  /** Well-formed, but not written and signed by its owner */
+  tampered: boolean;
+}
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
+const RECORD_DOMAIN = recordDomain(config.chainId, config.contractAddress);
+
+const authorChecks = loadAuthorChecks(RECORD_DOMAIN, `dungeon_record_checks_${config.chainId}_${normAddr(config.contractAddress)}`);
+
+type CheckedRecord = { decoded: DecodedDungeonRecord; rejected?: undefined } | { rejected: RejectedRecord };
+
+// The record a key's writes stand for, null for an empty key; recordOwnership.ts decides whose writes count
+const checkRecord = (dungeonId: string, writes: RecordWrite[], creator: string | null): CheckedRecord | null => {
+  const resolved = resolveRecord(dungeonId, writes, authorChecks.check, creator);
+  if (!resolved || !resolved.rejected) return resolved;
+  console.warn(`Rejected dungeon record ${dungeonId}: ${resolved.rejected.reason}`);
+  return { rejected: { dungeonId, ...resolved.rejected } };
 };
 
-const generateDungeon = (encryptedData: string): { layout: string[], monsters: number, treasures: number } => {
-  const seed = FHEDecryptNumber(encryptedData);
-  const rng = (max: number, min = 0) => Math.floor((seed % 1000) / 1000 * (max - min + 1)) + min;
-  
-  const size = rng(5, 3); // 3x3 to 5x5 dungeon
-  const layout = [];
-  const roomTypes = ['Empty', 'Monster', 'Treasure', 'Boss', 'Trap'];
-  
-  for (let i = 0; i < size; i++) {
-    const row = [];
-    for (let j = 0; j < size; j++) {
-      row.push(roomTypes[rng(roomTypes.length - 1)]);
-    }
-    layout.push(row.join(' | '));
-  }
+// What the dungeon list last showed, rendered from the cache on the next visit until the chain catches up
+const DUNGEONS_SNAPSHOT = "dungeons";
+// Bumped whenever the view models below change shape or meaning (3: generator versions renumbered),
+// so an older snapshot is ignored instead of misread
+const SNAPSHOT_VERSION = 3;
 
-  return {
-    layout,
-    monsters: rng(10, 3),
-    treasures: rng(7, 1)
-  };
+interface DungeonSnapshot {
+  version: number;
+  /** Every dungeon key, newest first; dungeons only holds the page shown */
+  dungeonKeys: string[];
+  page: number;
+  dungeons: DungeonRecord[];
+  rejectedRecords: RejectedRecord[];
+  currentBatchId: number;
+  contractOwner: string | null;
+  batchStates: [number, BatchState][];
+}
+
+// Floors only depend on the generator, the seed and the totals, so each dungeon is generated once per device
+const loadFloors = async (generatorVersion: number, seed: number, totals: PartyAttributes) => {
+  const key = layoutKey(generatorVersion, seed, totals);
+  const cache = await getDungeonCache();
+  try {
+    const cached = await cache.getLayout(key);
+    if (cached) return cached;
+  } catch (e) { console.warn(`Could not read cached layout ${key}:`, e); }
+  const floors = getGenerator(generatorVersion).generate(seed, totals);
+  cache.putLayout(key, floors).catch(e => console.warn(`Could not cache layout ${key}:`, e));
+  return floors;
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// Signs the record in the wallet, then encodes it with the signature for setData
+const signRecord = async (dungeonId: string, record: Omit<StoredDungeonRecord, "schema">) =>
+  encodeDungeonRecord(record, await signDungeonRecord(await getBrowserSigner(), RECORD_DOMAIN, dungeonId, record));
+
+// Unrecorded runs are saved as their action log so they survive a reload
+const runStorageKey = (dungeonId: string) => `dungeon_run_${dungeonId}`;
+
+// A run in progress, kept client-side until its outcome is recorded
+interface Exploration {
+  dungeonId: string;
+  setup: ExplorationSetup;
+  state: ExplorationState;
+}
+
+// Randomly selected style: High Contrast (Red+Black), Retro Pixel, Center Radiation, Animation Rich
+const ROOM_LABELS: Record<RoomType, string> = {
+  entrance: "S",
+  empty: "E",
+  monster: "M",
+  treasure: "T",
+  trap: "X",
+  puzzle: "P",
+  secret: "?",
+  stairs: ">",
+  boss: "B"
+};
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [dungeons, setDungeons] = useState<DungeonRecord[]>([]);
+  const [currentBatchId, setCurrentBatchId] = useState<number>(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newDungeonData, setNewDungeonData] = useState({ dungeonName: "", strength: 0, agility: 0, intelligence: 0 });
+  const [newDungeonData, setNewDungeonData] = useState<NewDungeonData>(emptyDungeonData);
   const [selectedDungeon, setSelectedDungeon] = useState<DungeonRecord | null>(null);
   const [decryptedAttributes, setDecryptedAttributes] = useState<{ strength: number, agility: number, intelligence: number } | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
-  const [dungeonLayout, setDungeonLayout] = useState<string[]>([]);
+  const [exploration, setExploration] = useState<Exploration | null>(null);
   const [showTutorial, setShowTutorial] = useState(false);
   const [activeTab, setActiveTab] = useState("dungeons");
+  const [contractOwner, setContractOwner] = useState<string | null>(null);
+  const [seedRequests, setSeedRequests] = useState<Map<number, TrackedDecryption>>(new Map());
+  const [rejectedRecords, setRejectedRecords] = useState<RejectedRecord[]>([]);
+  const [dungeonKeys, setDungeonKeys] = useState<string[]>([]);
+  const [page, setPage] = useState(0);
+  // The page readDungeons builds; a ref, because the indexer subscription keeps the first render's closure
+  const pageRef = useRef(0);
+  const [statusCounts, setStatusCounts] = useState<StatusCounts | null>(null);
+  const [batchStates, setBatchStates] = useState<Map<number, BatchState>>(new Map());
+  // False while the list on screen is the cached one from an earlier visit
+  const [synced, setSynced] = useState(false);
+  const cooldowns = useCooldowns(address);
+  const navigate = useNavigate();
+  // The admin console lives at /admin so owners can bookmark it; everything else stays tab-driven
+  const adminRoute = useMatch("/admin") !== null;
 
-  const readyCount = dungeons.filter(d => d.status === "ready").length;
-  const generatingCount = dungeons.filter(d => d.status === "generating").length;
-  const completedCount = dungeons.filter(d => d.status === "completed").length;
+  const { pageCount } = dungeonPage(dungeonKeys, page);
+  const visibleBatchIds = [...new Set([...dungeons, ...(selectedDungeon ? [selectedDungeon] : [])].map(d => d.batchId))];
 
+  // Show the cached list straight away, then catch up with the chain behind it
   useEffect(() => {
-    loadDungeons().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
+    getDungeonCache()
+      .then(cache => cache.getSnapshot<DungeonSnapshot>(DUNGEONS_SNAPSHOT))
+      .then(snapshot => {
+        if (snapshot?.version !== SNAPSHOT_VERSION) return;
+        pageRef.current = snapshot.page;
+        setPage(snapshot.page);
+        setDungeonKeys(snapshot.dungeonKeys);
+        setDungeons(snapshot.dungeons);
+        setRejectedRecords(snapshot.rejectedRecords);
+        setCurrentBatchId(snapshot.currentBatchId);
+        setContractOwner(snapshot.contractOwner);
+        setBatchStates(new Map(snapshot.batchStates));
+        setLoading(false);
+      })
+      .catch(e => console.error("Error reading the dungeon cache:", e))
+      .finally(() => loadDungeons().finally(() => setLoading(false)));
+  }, []);
+
+  // Only state read from the chain is written back, so an empty first render never replaces the cached list
+  useEffect(() => {
+    if (!synced) return;
+    const snapshot: DungeonSnapshot = {
+      version: SNAPSHOT_VERSION,
+      dungeonKeys,
+      page,
+      dungeons,
+      rejectedRecords,
+      currentBatchId,
+      contractOwner,
+      batchStates: [...batchStates]
+    };
+    getDungeonCache()
+      .then(cache => cache.putSnapshot(DUNGEONS_SNAPSHOT, snapshot))
+      .catch(e => console.error("Error writing the dungeon cache:", e));
+  }, [synced, dungeonKeys, page, dungeons, rejectedRecords, currentBatchId, contractOwner, batchStates]);
+
+  // Follow the chain through the event indexer; new logs and reorgs both rebuild the list
+  useEffect(() => {
+    let indexer: EventIndexer | undefined;
+    let unsubscribe: (() => void) | undefined;
+    let reload: ReturnType<typeof setTimeout> | undefined;
+    getEventIndexer().then(started => {
+      indexer = started;
+      unsubscribe = indexer.subscribe(() => {
+        clearTimeout(reload);
+        reload = setTimeout(() => { readDungeons(); }, 500);
+      });
+      indexer.start();
+    }).catch(e => console.error("Error starting event indexer:", e));
+    return () => {
+      unsubscribe?.();
+      indexer?.stop();
+      clearTimeout(reload);
     };
-    initSignatureParams();
   }, []);
 
+  // Oracle progress per batch; fulfilled requests flip their dungeon to "ready" through the indexer
+  useEffect(() => {
+    let stop: (() => void) | undefined;
+    getDecryptionTracker().then(tracker => {
+      const unsubscribe = tracker.subscribe(() => setSeedRequests(tracker.byBatch()));
+      tracker.start();
+      stop = () => { unsubscribe(); tracker.stop(); };
+    }).catch(e => console.error("Error starting decryption tracker:", e));
+    return () => stop?.();
+  }, []);
+
+  // Batch state changes with every submission, so it is read again for the dungeons on screen whenever the list is rebuilt
+  useEffect(() => {
+    if (visibleBatchIds.length === 0) return;
+    let cancelled = false;
+    (async () => {
+      const dungeonGen = await getDungeonGenReadOnly();
+      if (!dungeonGen) return;
+      const multicall = await getMulticall();
+      const batches = await Promise.all(visibleBatchIds.map(batchId => multicall.call(dungeonGen.batches, batchId)));
+      if (cancelled) return;
+      setBatchStates(previous => {
+        const next = new Map(previous);
+        batches.forEach((batch, index) => next.set(visibleBatchIds[index], {
+          open: batch.open,
+          ciphertexts: {
+            strength: batch.totalEncryptedPartyStrength,
+            agility: batch.totalEncryptedPartyAgility,
+            intellect: batch.totalEncryptedPartyIntellect,
+            seed: batch.dungeonSeed
+          }
+        }));
+        return next;
+      });
+    })().catch(e => console.error("Error loading batch state:", e));
+    return () => { cancelled = true; };
+  }, [dungeons, visibleBatchIds.join(",")]);
+
   const loadDungeons = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      const keysBytes = await contract.getData("dungeon_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
+      await (await getEventIndexer()).sync();
+    } catch (e) { console.error("Error syncing events:", e); }
+    await readDungeons();
+  };
+
+  // Every dungeon key from the indexed events and key lists, plus a builder for the records of any of them.
+  // getData is only a fallback for keys the indexer has not seen.
+  const readDungeonHistory = async (contract: ethers.Contract, multicall: Multicall): Promise<DungeonHistory> => {
+    const events = await (await getEventIndexer()).store.query();
+
+    // Oracle results for every batch whose seed has been decrypted
+    const decryptions = new Map<number, BatchDecryption>();
+    for (const event of events) {
+      if (event.name !== "DecryptionCompleted") continue;
+      decryptions.set(event.batchId, {
+        seed: event.seed,
+        totals: { strength: event.strength, agility: event.agility, intelligence: event.intellect }
+      });
+    }
+
+    // Characters submitted per batch, provider and party, one event per encrypted submission
+    const submissions = new Map<string, number>();
+    for (const event of events) {
+      if (event.name !== "PartyAttributesSubmitted") continue;
+      const key = `${event.batchId}:${normAddr(event.provider)}:${event.partyId}`;
+      submissions.set(key, (submissions.get(key) ?? 0) + 1);
+    }
+
+    const stored = latestData(events);
+    const history = dataWrites(events);
+    const creators = partyCreators(events);
+    const readData = async (key: string): Promise<string> => {
+      const event = stored.get(key);
+      if (event) return event.value;
+      const value: string = await multicall.call(contract.getData, key);
+      if (ethers.dataLength(value) > 0) console.warn(`No DataStored event indexed for "${key}", read it from the contract`);
+      return value;
+    };
+
+    // Record writes seen by the indexer are authoritative; the key lists only add records older than its history
+    const [legacyKeys, ownerKeys] = await Promise.all([
+      readData(LEGACY_KEYS_KEY),
+      address ? readData(ownerKeysKey(address)) : Promise.resolve("0x")
+    ]);
+    const keys = orderDungeonKeys(mergeKeyLists(
+      parseKeyList(legacyKeys),
+      ...keyListsFromEvents(events),
+      parseKeyList(ownerKeys),
+      dungeonIdsFromEvents(events)
+    ), history, creators);
+
+    const build = async (ids: string[]) => {
+      // Indexed records come with every write to their key; the rest are read in one multicall
+      const writes = await Promise.all(ids.map(async (key): Promise<RecordWrite[]> => {
         try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing dungeon keys:", e); }
-      }
+          return history.get(recordKey(key)) ?? [{ sender: null, value: await readData(recordKey(key)) }];
+        } catch (e) {
+          console.error(`Error loading dungeon ${key}:`, e);
+          return [];
+        }
+      }));
       const list: DungeonRecord[] = [];
-      for (const key of keys) {
-        try {
-          const dungeonBytes = await contract.getData(`dungeon_${key}`);
-          if (dungeonBytes.length > 0) {
-            try {
-              const dungeonData = JSON.parse(ethers.toUtf8String(dungeonBytes));
-              list.push({ 
-                id: key, 
-                encryptedAttributes: dungeonData.attributes, 
-                timestamp: dungeonData.timestamp, 
-                owner: dungeonData.owner, 
-                dungeonName: dungeonData.dungeonName, 
-                status: dungeonData.status || "generating",
-                monstersDefeated: dungeonData.monstersDefeated || 0,
-                treasuresFound: dungeonData.treasuresFound || 0
-              });
-            } catch (e) { console.error(`Error parsing dungeon data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading dungeon ${key}:`, e); }
-      }
-      list.sort((a, b) => b.timestamp - a.timestamp);
+      const rejected: RejectedRecord[] = [];
+      ids.forEach((key, index) => {
+        const checked = checkRecord(key, writes[index], dungeonCreator(creators, key));
+        if (!checked) return;
+        if (checked.rejected) {
+          rejected.push(checked.rejected);
+          return;
+        }
+        const { record } = checked.decoded;
+        const decryption = decryptions.get(record.batchId);
+        list.push({ 
+          id: key, 
+          batchId: record.batchId,
+          timestamp: record.timestamp, 
+          owner: record.owner, 
+          dungeonName: record.dungeonName, 
+          status: record.status === "completed" ? "completed" : decryption ? "ready" : "generating",
+          monstersDefeated: record.monstersDefeated,
+          treasuresFound: record.treasuresFound,
+          seed: decryption?.seed ?? null,
+          partyTotals: decryption?.totals ?? null,
+          outcome: record.outcome,
+          actionLog: record.actionLog,
+          floorProgress: record.floorProgress,
+          generatorVersion: record.generatorVersion,
+          partySize: record.partySize,
+          party: record.party,
+          membersSubmitted: submissions.get(`${record.batchId}:${normAddr(record.owner)}:${dungeonPartyId(key)}`) ?? 0
+        });
+      });
+      authorChecks.save();
+      return { list, rejected };
+    };
+
+    return { keys, build };
+  };
+
+  // Builds the page on screen; only its records are read and checked, however many dungeons there are
+  const readDungeons = async () => {
+    setIsRefreshing(true);
+    try {
+      const [contract, dungeonGen] = await Promise.all([getContractReadOnly(), getDungeonGenReadOnly()]);
+      if (!contract || !dungeonGen) return;
+      const multicall = await getMulticall();
+      const [isAvailable, batchId, owner] = await Promise.all([
+        multicall.call(contract.isAvailable),
+        multicall.call(dungeonGen.currentBatchId),
+        multicall.call(dungeonGen.owner)
+      ]);
+      if (!isAvailable) return;
+      setCurrentBatchId(Number(batchId));
+      setContractOwner(owner);
+      const history = await readDungeonHistory(contract, multicall);
+      const shown = dungeonPage(history.keys, pageRef.current);
+      const { list, rejected } = await history.build(shown.keys);
+      pageRef.current = shown.page;
+      setPage(shown.page);
+      setDungeonKeys(history.keys);
       setDungeons(list);
+      setRejectedRecords(rejected);
+      setSynced(true);
     } catch (e) { console.error("Error loading dungeons:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
+  const showPage = (next: number) => {
+    pageRef.current = next;
+    setPage(next);
+    readDungeons();
+  };
+
   const createDungeon = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setCreating(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting party attributes with Zama FHE..." });
+    const { dungeonName, members } = newDungeonData;
+    let submittedCount = 0;
     try {
-      // Combine attributes into single encrypted value for dungeon generation
-      const combinedAttributes = newDungeonData.strength * 10000 + newDungeonData.agility * 100 + newDungeonData.intelligence;
-      const encryptedAttributes = FHEEncryptNumber(combinedAttributes);
-      
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
+      const dungeonGen = await getDungeonGenWithSigner();
+      const cooldown = Number(await dungeonGen.cooldownSeconds());
+      let batchId: number | null = null;
+      // Known before the first submission, so every character can be tagged with this dungeon's party id
       const dungeonId = `dungeon-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const dungeonData = { 
-        attributes: encryptedAttributes, 
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        dungeonName: newDungeonData.dungeonName, 
-        status: "generating",
-        monstersDefeated: 0,
-        treasuresFound: 0
-      };
       
-      await contract.setData(`dungeon_${dungeonId}`, ethers.toUtf8Bytes(JSON.stringify(dungeonData)));
-      
-      const keysBytes = await contract.getData("dungeon_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
+      // Each character is its own encrypted submission; the batch adds them up homomorphically
+      for (const [index, member] of members.entries()) {
+        const label = `${member.name} (${index + 1}/${members.length})`;
+        if (index > 0 && cooldown > 0) {
+          const last = Number(await dungeonGen.lastSubmissionTime(address!));
+          const latest = await dungeonGen.runner!.provider!.getBlock("latest");
+          const wait = last + cooldown - (latest?.timestamp ?? 0);
+          if (wait > 0) {
+            setTransactionStatus({ visible: true, status: "pending", message: `Submission cooldown: waiting ${wait}s before ${label}...` });
+            await new Promise(resolve => setTimeout(resolve, (wait + 1) * 1000));
+          }
+        }
+        
+        setTransactionStatus({ visible: true, status: "pending", message: `Encrypting ${label} with Zama FHE...` });
+        const encrypted = await encryptPartyAttributes(config.dungeonGenAddress, address!, member);
+        
+        setTransactionStatus({ visible: true, status: "pending", message: `Submitting ${label} to the open batch...` });
+        const tx = await dungeonGen.submitPartyAttributes(encrypted.strength, encrypted.agility, encrypted.intellect, encrypted.inputProof, dungeonPartyId(dungeonId));
+        const receipt = await tx.wait();
+        const submitted = receipt?.logs
+          .filter(log => normAddr(log.address) === normAddr(config.dungeonGenAddress))
+          .map(log => dungeonGen.interface.parseLog(log))
+          .find(event => event?.name === "PartyAttributesSubmitted");
+        if (!submitted) throw new Error("PartyAttributesSubmitted event missing from receipt");
+        
+        const submittedBatch = Number(submitted.args.batchId);
+        if (batchId !== null && submittedBatch !== batchId) {
+          throw new Error(`Batch #${batchId} closed while the party was being submitted`);
+        }
+        submittedCount++;
+        if (batchId !== null) continue;
+        batchId = submittedBatch;
+        
+        // Record the dungeon once the first character lands and the batch it joined is known
+        const contract = await getContractWithSigner();
+        if (!contract) throw new Error("Failed to get contract with signer");
+        
+        setTransactionStatus({ visible: true, status: "pending", message: "Sign the dungeon record in your wallet..." });
+        const dungeonData = await signRecord(dungeonId, { 
+          batchId, 
+          timestamp: Math.floor(Date.now() / 1000), 
+          owner: address!, 
+          dungeonName, 
+          status: "generating",
+          monstersDefeated: 0,
+          treasuresFound: 0,
+          partySize: members.length,
+          generatorVersion: CURRENT_GENERATOR_VERSION,
+          party: members.map(m => ({ name: m.name, characterClass: m.characterClass })),
+          outcome: null,
+          turns: null,
+          actionLog: null,
+          floorProgress: []
+        });
+        
+        await contract.setData(recordKey(dungeonId), dungeonData);
+        
+        // Only this wallet writes its own key list, so concurrent creators can no longer overwrite each other
+        const ownerKey = ownerKeysKey(address!);
+        const keys = mergeKeyLists(parseKeyList(await contract.getData(ownerKey)), [dungeonId]);
+        await contract.setData(ownerKey, encodeKeyList(keys));
       }
-      keys.push(dungeonId);
-      await contract.setData("dungeon_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
       
-      setTransactionStatus({ visible: true, status: "success", message: "Dungeon generation started with FHE!" });
+      setTransactionStatus({ visible: true, status: "success", message: `${members.length} characters added to batch #${batchId}!` });
       await loadDungeons();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewDungeonData({ dungeonName: "", strength: 0, agility: 0, intelligence: 0 });
+        setNewDungeonData(emptyDungeonData());
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Creation failed: " + (e.message || "Unknown error");
+      const progress = submittedCount > 0 ? ` (${submittedCount}/${members.length} characters submitted)` : "";
+      const errorMessage = await describeContractError(e, "Creation failed", { account: address, cooldown: "submission" }) + progress;
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<{ strength: number, agility: number, intelligence: number } | null> => {
+  const requestDungeonSeed = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Computing the encrypted dungeon seed..." });
+    try {
+      const dungeonGen = await getDungeonGenWithSigner();
+      const tx = await dungeonGen.generateDungeonSeed();
+      await tx.wait();
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Seed decryption requested from the oracle!" });
+      await loadDungeons();
+      await (await getDecryptionTracker()).refresh();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = await describeContractError(e, "Seed generation failed", { account: address, cooldown: "decryption" });
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const decryptWithSignature = async (dungeon: DungeonRecord): Promise<{ strength: number, agility: number, intelligence: number } | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      const combinedValue = FHEDecryptNumber(encryptedData);
-      const strength = Math.floor(combinedValue / 10000);
-      const agility = Math.floor((combinedValue % 10000) / 100);
-      const intelligence = combinedValue % 100;
-      
-      return { strength, agility, intelligence };
-    } catch (e) { 
-      console.error("Decryption failed:", e); 
-      return null; 
+      const dungeonGen = await getDungeonGenWithSigner();
+      // Totals handles change with every submission, so read the current ones rather than the cached record
+      const batch = await dungeonGen.batches(dungeon.batchId);
+      if (!(await dungeonGen.hasTotalsAccess(dungeon.batchId, address!))) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Granting you access to the encrypted party totals..." });
+        const tx = await dungeonGen.allowBatchTotals(dungeon.batchId);
+        await tx.wait();
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }
+      // Signs the EIP-712 permit on first use; later decryptions reuse it until it expires
+      return await userDecryptPartyTotals(await getBrowserSigner(), config.dungeonGenAddress, {
+        strength: batch.totalEncryptedPartyStrength,
+        agility: batch.totalEncryptedPartyAgility,
+        intellect: batch.totalEncryptedPartyIntellect
+      });
+    } catch (e: any) {
+      console.error("Decryption failed:", e);
+      const errorMessage = isUserRejection(e) ? "Signature rejected by user" : await describeContractError(e, "Decryption failed");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
     } finally { 
       setIsDecrypting(false); 
     }
@@ -211,79 +612,148 @@ const App: React.FC = () => {
 
   const exploreDungeon = async (dungeonId: string) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Generating dungeon with FHE attributes..." });
+    const record = dungeons.find(d => d.id === dungeonId);
+    if (!record || record.status !== "ready" || record.seed === null || !record.partyTotals) {
+      alert("Dungeon not ready for exploration");
+      return;
+    }
+    // Layout comes from the decrypted seed, difficulty and content from the decrypted party totals
+    if (!generatorVersions().includes(record.generatorVersion)) {
+      alert(`This dungeon needs generator v${record.generatorVersion}, please update the app`);
+      return;
+    }
+    const floors = await loadFloors(record.generatorVersion, record.seed, record.partyTotals);
+    const setup = { floors, seed: record.seed, party: record.partyTotals };
+    let state = startExploration(setup);
+    const saved = localStorage.getItem(runStorageKey(dungeonId));
+    if (saved) {
+      try { state = replayExploration(setup, decodeActions(saved)); }
+      catch (e) { console.error(`Discarding saved run for ${dungeonId}:`, e); }
+    }
+    setExploration({ dungeonId, setup, state });
+    setSelectedDungeon(record);
+  };
+
+  const takeExplorationAction = (action: ExplorationAction) => {
+    if (!exploration) return;
+    const state = applyAction(exploration.setup, exploration.state, action);
+    localStorage.setItem(runStorageKey(exploration.dungeonId), encodeActions(state.actions));
+    setExploration({ ...exploration, state });
+  };
+
+  const recordExploration = async () => {
+    if (!exploration?.state.outcome) return;
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    const { dungeonId, state } = exploration;
+    setTransactionStatus({ visible: true, status: "pending", message: "Recording exploration outcome..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const dungeonBytes = await contract.getData(`dungeon_${dungeonId}`);
-      if (dungeonBytes.length === 0) throw new Error("Dungeon not found");
-      
-      const dungeonData = JSON.parse(ethers.toUtf8String(dungeonBytes));
-      if (dungeonData.status !== "ready") throw new Error("Dungeon not ready for exploration");
-      
-      // Generate dungeon layout based on encrypted attributes
-      const dungeon = generateDungeon(dungeonData.attributes);
-      setDungeonLayout(dungeon.layout);
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
       
-      // Update dungeon status
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
+      // The owner's record, not whatever was written over it last
+      const events = await (await getEventIndexer()).store.query({ names: ["DataStored", "PartyAttributesSubmitted"] });
+      const writes = dataWrites(events).get(recordKey(dungeonId)) ?? [{ sender: null, value: await contract.getData(recordKey(dungeonId)) }];
+      const checked = checkRecord(dungeonId, writes, dungeonCreator(partyCreators(events), dungeonId));
+      if (!checked) throw new Error("Dungeon not found");
+      if (checked.rejected) throw new Error(checked.rejected.reason);
       
-      const updatedDungeon = { 
-        ...dungeonData, 
+      // Older records are migrated on the way through and written back signed, in the current schema
+      const { record } = checked.decoded;
+      if (!isOwner(record.owner)) throw new Error("Only the dungeon's owner can record its exploration");
+      setTransactionStatus({ visible: true, status: "pending", message: "Sign the exploration record in your wallet..." });
+      const updatedDungeon = await signRecord(dungeonId, { 
+        ...record, 
         status: "completed",
-        monstersDefeated: dungeon.monsters,
-        treasuresFound: dungeon.treasures
-      };
+        outcome: state.outcome,
+        turns: state.turn,
+        actionLog: encodeActions(state.actions),
+        floorProgress: state.floors.map(floor => ({
+          roomsVisited: floor.visited.filter(Boolean).length,
+          monstersDefeated: floor.monstersDefeated,
+          treasuresFound: floor.treasuresFound
+        })),
+        monstersDefeated: state.monstersDefeated,
+        treasuresFound: state.treasuresFound
+      });
       
-      await contractWithSigner.setData(`dungeon_${dungeonId}`, ethers.toUtf8Bytes(JSON.stringify(updatedDungeon)));
+      await contract.setData(recordKey(dungeonId), updatedDungeon);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Dungeon explored successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Exploration recorded successfully!" });
+      localStorage.removeItem(runStorageKey(dungeonId));
+      setExploration(null);
+      setSelectedDungeon(null);
       await loadDungeons();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Exploration failed: " + (e.message || "Unknown error") });
+      const errorMessage = isUserRejection(e)
+        ? "Transaction rejected by user"
+        : "Recording failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
   const isOwner = (dungeonAddress: string) => address?.toLowerCase() === dungeonAddress.toLowerCase();
+  const isContractOwner = isConnected && contractOwner !== null && isOwner(contractOwner);
+  const currentTab = adminRoute ? "admin" : activeTab;
+
+  // Counting statuses means checking every record, so it is only done while the stats tab is open
+  useEffect(() => {
+    if (currentTab !== "stats") return;
+    let cancelled = false;
+    (async () => {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const history = await readDungeonHistory(contract, await getMulticall());
+      const { list } = await history.build(history.keys);
+      if (cancelled) return;
+      const counts: StatusCounts = { generating: 0, ready: 0, completed: 0 };
+      for (const dungeon of list) counts[dungeon.status]++;
+      setStatusCounts(counts);
+    })().catch(e => console.error("Error counting dungeons:", e));
+    return () => { cancelled = true; };
+  }, [currentTab, dungeons]);
+
+  const selectTab = (tab: string) => {
+    setActiveTab(tab);
+    if (adminRoute) navigate("/");
+  };
+
+  const showAdminStatus = (status: "pending" | "success" | "error", message: string) => {
+    setTransactionStatus({ visible: true, status, message });
+    if (status !== "pending") setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), status === "error" ? 3000 : 2000);
+  };
 
   const tutorialSteps = [
-    { title: "Assemble Party", description: "Set your party's attributes (Strength, Agility, Intelligence)", icon: "⚔️" },
+    { title: "Assemble Party", description: "Build a party of 1-6 characters, each with a class and Strength, Agility, Intelligence", icon: "⚔️" },
     { title: "FHE Encryption", description: "Attributes are encrypted with Zama FHE before submission", icon: "🔒", details: "Your data is encrypted on the client-side before being sent to the blockchain" },
     { title: "Dungeon Generation", description: "Dungeon is procedurally generated based on encrypted attributes", icon: "🏰", details: "The dungeon layout, monsters and treasures are uniquely determined by your party's encrypted attributes" },
     { title: "Explore Dungeon", description: "Discover unique challenges based on your party composition", icon: "🧭", details: "Each dungeon is different and requires different strategies" }
   ];
 
-  const renderDungeonStats = () => {
-    const total = dungeons.length || 1;
-    const readyPercentage = (readyCount / total) * 100;
-    const generatingPercentage = (generatingCount / total) * 100;
-    const completedPercentage = (completedCount / total) * 100;
-    
-    return (
-      <div className="stats-container">
-        <div className="stat-item">
-          <div className="stat-value">{dungeons.length}</div>
-          <div className="stat-label">Total Dungeons</div>
-        </div>
-        <div className="stat-item">
-          <div className="stat-value">{readyCount}</div>
-          <div className="stat-label">Ready</div>
-        </div>
-        <div className="stat-item">
-          <div className="stat-value">{generatingCount}</div>
-          <div className="stat-label">Generating</div>
-        </div>
-        <div className="stat-item">
-          <div className="stat-value">{completedCount}</div>
-          <div className="stat-label">Completed</div>
-        </div>
+  const totalCount = statusCounts ? statusCounts.ready + statusCounts.generating + statusCounts.completed : 0;
+  const statusShare = (status: DungeonRecord["status"]) => statusCounts && totalCount > 0 ? (statusCounts[status] / totalCount) * 100 : 0;
+
+  const renderDungeonStats = () => (
+    <div className="stats-container">
+      <div className="stat-item">
+        <div className="stat-value">{statusCounts ? totalCount : "..."}</div>
+        <div className="stat-label">Total Dungeons</div>
       </div>
-    );
-  };
+      <div className="stat-item">
+        <div className="stat-value">{statusCounts?.ready ?? "..."}</div>
+        <div className="stat-label">Ready</div>
+      </div>
+      <div className="stat-item">
+        <div className="stat-value">{statusCounts?.generating ?? "..."}</div>
+        <div className="stat-label">Generating</div>
+      </div>
+      <div className="stat-item">
+        <div className="stat-value">{statusCounts?.completed ?? "..."}</div>
+        <div className="stat-label">Completed</div>
+      </div>
+    </div>
+  );
 
   if (loading) return (
     <div className="loading-screen">
@@ -343,26 +813,40 @@ const App: React.FC = () => {
         
         <div className="tab-container pixel-tabs">
           <button 
-            className={`pixel-tab ${activeTab === "dungeons" ? "active" : ""}`}
-            onClick={() => setActiveTab("dungeons")}
+            className={`pixel-tab ${currentTab === "dungeons" ? "active" : ""}`}
+            onClick={() => selectTab("dungeons")}
           >
             My Dungeons
           </button>
           <button 
-            className={`pixel-tab ${activeTab === "stats" ? "active" : ""}`}
-            onClick={() => setActiveTab("stats")}
+            className={`pixel-tab ${currentTab === "stats" ? "active" : ""}`}
+            onClick={() => selectTab("stats")}
           >
             Statistics
           </button>
           <button 
-            className={`pixel-tab ${activeTab === "about" ? "active" : ""}`}
-            onClick={() => setActiveTab("about")}
+            className={`pixel-tab ${currentTab === "about" ? "active" : ""}`}
+            onClick={() => selectTab("about")}
           >
             About
           </button>
+          {isContractOwner && (
+            <button 
+              className={`pixel-tab ${currentTab === "admin" ? "active" : ""}`}
+              onClick={() => navigate("/admin")}
+            >
+              Admin
+            </button>
+          )}
         </div>
         
-        {activeTab === "dungeons" && (
+        {currentTab === "admin" && (
+          isContractOwner
+            ? <AdminConsole onStatus={showAdminStatus} onChanged={loadDungeons} />
+            : <div className="admin-section pixel-panel"><p>The admin console is only available to the DungeonGenFHE owner.</p></div>
+        )}
+        
+        {currentTab === "dungeons" && (
           <div className="dungeons-section">
             <div className="section-header pixel-header">
               <h2>My Dungeons</h2>
@@ -375,6 +859,22 @@ const App: React.FC = () => {
               </button>
             </div>
             
+            {!synced && dungeons.length > 0 && (
+              <div className="cache-notice pixel-text">
+                Showing dungeons cached on this device{isRefreshing ? ", syncing with the chain..." : ". The chain could not be reached."}
+              </div>
+            )}
+            
+            <RecordWarning
+              className="tampered"
+              records={rejectedRecords.filter(rejected => rejected.tampered)}
+              summary={count => `⚠ ${count} dungeon record${count > 1 ? "s were" : " was"} changed by someone other than the owner and ${count > 1 ? "are" : "is"} hidden`}
+            />
+            <RecordWarning
+              records={rejectedRecords.filter(rejected => !rejected.tampered)}
+              summary={count => `⚠ ${count} dungeon record${count > 1 ? "s" : ""} failed validation and ${count > 1 ? "are" : "is"} hidden`}
+            />
+            
             <div className="dungeons-list pixel-scroll">
               {dungeons.length === 0 ? (
                 <div className="no-dungeons pixel-empty">
@@ -400,11 +900,31 @@ const App: React.FC = () => {
                         <span>{dungeon.status}</span>
                       </div>
                       <div className="dungeon-date pixel-text">
-                        {new Date(dungeon.timestamp * 1000).toLocaleDateString()}
+                        Batch #{dungeon.batchId} · {new Date(dungeon.timestamp * 1000).toLocaleDateString()}
                       </div>
                       <div className="dungeon-owner pixel-text">
                         {dungeon.owner.substring(0, 6)}...{dungeon.owner.substring(38)}
                       </div>
+                      <div className="dungeon-members pixel-text">
+                        Members submitted: {dungeon.membersSubmitted}/{dungeon.partySize}
+                      </div>
+                      {dungeon.status === "generating" && seedRequests.has(dungeon.batchId) && (
+                        <SeedRequestStatus request={seedRequests.get(dungeon.batchId)!} />
+                      )}
+                      {dungeon.status === "generating" && batchStates.get(dungeon.batchId)?.open && dungeon.batchId === currentBatchId && isOwner(dungeon.owner) && (
+                        <button 
+                          className="pixel-button small explore-btn"
+                          disabled={seedRequests.get(dungeon.batchId)?.status === "pending" || cooldowns.decryption > 0}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            requestDungeonSeed();
+                          }}
+                        >
+                          {seedRequests.get(dungeon.batchId)?.status === "pending"
+                            ? "Awaiting Oracle..."
+                            : cooldowns.decryption > 0 ? `Cooldown ${cooldowns.decryption}s` : "Generate Seed"}
+                        </button>
+                      )}
                       {dungeon.status === "ready" && isOwner(dungeon.owner) && (
                         <button 
                           className="pixel-button small explore-btn"
@@ -421,28 +941,40 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
+            
+            {pageCount > 1 && (
+              <div className="pagination">
+                <button className="pixel-button small" disabled={page === 0 || isRefreshing} onClick={() => showPage(page - 1)}>
+                  ◀ Prev
+                </button>
+                <span className="pixel-text">Page {page + 1} / {pageCount}</span>
+                <button className="pixel-button small" disabled={page >= pageCount - 1 || isRefreshing} onClick={() => showPage(page + 1)}>
+                  Next ▶
+                </button>
+              </div>
+            )}
           </div>
         )}
         
-        {activeTab === "stats" && (
+        {currentTab === "stats" && (
           <div className="stats-section pixel-panel">
             <h2>Dungeon Statistics</h2>
             {renderDungeonStats()}
             <div className="stats-chart pixel-chart">
-              <div className="chart-bar" style={{ height: `${(readyCount / dungeons.length) * 100}%` }}>
+              <div className="chart-bar" style={{ height: `${statusShare("ready")}%` }}>
                 <span>Ready</span>
               </div>
-              <div className="chart-bar" style={{ height: `${(generatingCount / dungeons.length) * 100}%` }}>
+              <div className="chart-bar" style={{ height: `${statusShare("generating")}%` }}>
                 <span>Generating</span>
               </div>
-              <div className="chart-bar" style={{ height: `${(completedCount / dungeons.length) * 100}%` }}>
+              <div className="chart-bar" style={{ height: `${statusShare("completed")}%` }}>
                 <span>Completed</span>
               </div>
             </div>
           </div>
         )}
         
-        {activeTab === "about" && (
+        {currentTab === "about" && (
           <div className="about-section pixel-panel">
             <h2>About 隱秘地牢</h2>
             <div className="about-content">
@@ -468,6 +1000,20 @@ const App: React.FC = () => {
                   <li>High replay value</li>
                 </ul>
               </div>
+              <div className="ruleset-section">
+                <h3>Generation Ruleset v{RULESET.version}:</h3>
+                <p>Each attribute is the party total, capped at {RULESET.cap}.</p>
+                <table className="ruleset-table">
+                  <thead>
+                    <tr><th>Attribute</th><th>Effect</th><th>Formula</th></tr>
+                  </thead>
+                  <tbody>
+                    {RULESET.entries.map(entry => (
+                      <tr key={entry.effect}><td>{entry.attribute}</td><td>{entry.effect}</td><td>{entry.formula}</td></tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             </div>
           </div>
         )}
@@ -478,6 +1024,7 @@ const App: React.FC = () => {
           onSubmit={createDungeon} 
           onClose={() => setShowCreateModal(false)} 
           creating={creating} 
+          cooldown={cooldowns.submission}
           dungeonData={newDungeonData} 
           setDungeonData={setNewDungeonData}
         />
@@ -486,16 +1033,19 @@ const App: React.FC = () => {
       {selectedDungeon && (
         <DungeonDetailModal 
           dungeon={selectedDungeon} 
+          batch={batchStates.get(selectedDungeon.batchId) ?? null}
           onClose={() => { 
             setSelectedDungeon(null); 
             setDecryptedAttributes(null); 
-            setDungeonLayout([]);
+            if (exploration?.state.outcome === null) setExploration(null);
           }} 
           decryptedAttributes={decryptedAttributes} 
           setDecryptedAttributes={setDecryptedAttributes} 
           isDecrypting={isDecrypting} 
           decryptWithSignature={decryptWithSignature}
-          dungeonLayout={dungeonLayout}
+          exploration={exploration?.dungeonId === selectedDungeon.id ? exploration : null}
+          onAction={takeExplorationAction}
+          onRecord={recordExploration}
         />
       )}
       
@@ -532,28 +1082,66 @@ const App: React.FC = () => {
   );
 };
 
+const SEED_REQUEST_LABELS: Record<TrackedDecryption["status"], string> = {
+  pending: "Oracle decrypting",
+  fulfilled: "Seed decrypted",
+  failed: "Seed request failed",
+  timedOut: "Oracle timed out"
+};
+
+const SeedRequestStatus: React.FC<{ request: TrackedDecryption }> = ({ request }) => {
+  const elapsed = Math.max(0, Math.floor(Date.now() / 1000) - request.requestedAt);
+  return (
+    <div className={`seed-request pixel-text ${request.status}`} title={`Request ${request.requestId}`}>
+      <div>
+        {SEED_REQUEST_LABELS[request.status]}
+        {request.status === "pending" && ` · ${Math.floor(elapsed / 60)}m ${elapsed % 60}s`}
+      </div>
+      {request.message && <div className="seed-request-message">{request.message}</div>}
+    </div>
+  );
+};
+
 interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  dungeonData: any;
-  setDungeonData: (data: any) => void;
+  /** Seconds left before this wallet may submit again */
+  cooldown: number;
+  dungeonData: NewDungeonData;
+  setDungeonData: (data: NewDungeonData) => void;
 }
 
-const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, dungeonData, setDungeonData }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setDungeonData({ ...dungeonData, [name]: value });
+const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, cooldown, dungeonData, setDungeonData }) => {
+  const { members } = dungeonData;
+  const totals = partyTotals(members);
+
+  const updateMember = (index: number, changes: Partial<PartyMember>) => {
+    setDungeonData({ ...dungeonData, members: members.map((m, i) => i === index ? { ...m, ...changes } : m) });
+  };
+
+  const handleClassChange = (index: number, characterClass: CharacterClass) => {
+    updateMember(index, { characterClass, ...CHARACTER_CLASSES[characterClass].base });
   };
 
-  const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleValueChange = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    setDungeonData({ ...dungeonData, [name]: parseFloat(value) });
+    updateMember(index, { [name]: parseInt(value, 10) || 0 });
+  };
+
+  const addMember = () => {
+    if (members.length >= MAX_PARTY_SIZE) return;
+    setDungeonData({ ...dungeonData, members: [...members, createMember("warrior", members.length)] });
+  };
+
+  const removeMember = (index: number) => {
+    setDungeonData({ ...dungeonData, members: members.filter((_, i) => i !== index) });
   };
 
   const handleSubmit = () => {
-    if (!dungeonData.dungeonName || dungeonData.strength <= 0 || dungeonData.agility <= 0 || dungeonData.intelligence <= 0) {
-      alert("Please fill all required fields with valid values");
+    const problem = !dungeonData.dungeonName.trim() ? "Please enter a dungeon name" : validateParty(members);
+    if (problem) {
+      alert(problem);
       return;
     }
     onSubmit();
@@ -571,7 +1159,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             <div className="pixel-icon">🔒</div> 
             <div>
               <strong>FHE Encryption Notice</strong>
-              <p>Your party attributes will be encrypted with Zama FHE before submission</p>
+              <p>Each character is encrypted with Zama FHE and submitted separately</p>
             </div>
           </div>
           
@@ -581,69 +1169,75 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
               type="text" 
               name="dungeonName" 
               value={dungeonData.dungeonName} 
-              onChange={handleChange} 
+              onChange={e => setDungeonData({ ...dungeonData, dungeonName: e.target.value })} 
+              maxLength={MAX_DUNGEON_NAME_LENGTH}
               placeholder="Enter dungeon name..." 
               className="pixel-input"
             />
           </div>
           
-          <div className="attributes-grid">
-            <div className="form-group">
-              <label className="pixel-label">Strength *</label>
-              <input 
-                type="number" 
-                name="strength" 
-                min="1"
-                max="99"
-                value={dungeonData.strength} 
-                onChange={handleValueChange} 
-                placeholder="1-99" 
-                className="pixel-input"
-              />
-            </div>
-            <div className="form-group">
-              <label className="pixel-label">Agility *</label>
-              <input 
-                type="number" 
-                name="agility" 
-                min="1"
-                max="99"
-                value={dungeonData.agility} 
-                onChange={handleValueChange} 
-                placeholder="1-99" 
-                className="pixel-input"
-              />
-            </div>
-            <div className="form-group">
-              <label className="pixel-label">Intelligence *</label>
-              <input 
-                type="number" 
-                name="intelligence" 
-                min="1"
-                max="99"
-                value={dungeonData.intelligence} 
-                onChange={handleValueChange} 
-                placeholder="1-99" 
-                className="pixel-input"
-              />
-            </div>
+          <div className="party-builder">
+            <label className="pixel-label">Party ({members.length}/{MAX_PARTY_SIZE})</label>
+            {members.map((member, index) => (
+              <div className="party-member pixel-card" key={index}>
+                <div className="party-member-header">
+                  <span className="pixel-icon">{CHARACTER_CLASSES[member.characterClass].icon}</span>
+                  <input 
+                    type="text" 
+                    value={member.name} 
+                    onChange={e => updateMember(index, { name: e.target.value })} 
+                    maxLength={MAX_CHARACTER_NAME_LENGTH}
+                    placeholder="Character name..." 
+                    className="pixel-input"
+                  />
+                  <select 
+                    value={member.characterClass} 
+                    onChange={e => handleClassChange(index, e.target.value as CharacterClass)} 
+                    className="pixel-input"
+                  >
+                    {(Object.keys(CHARACTER_CLASSES) as CharacterClass[]).map(c => (
+                      <option key={c} value={c}>{CHARACTER_CLASSES[c].label}</option>
+                    ))}
+                  </select>
+                  {members.length > 1 && (
+                    <button onClick={() => removeMember(index)} className="pixel-button small cancel">&times;</button>
+                  )}
+                </div>
+                <div className="attributes-grid">
+                  {(["strength", "agility", "intelligence"] as const).map(attribute => (
+                    <div className="form-group" key={attribute}>
+                      <label className="pixel-label">{attribute.charAt(0).toUpperCase() + attribute.slice(1)}</label>
+                      <input 
+                        type="number" 
+                        name={attribute} 
+                        min={MIN_ATTRIBUTE}
+                        max={MAX_ATTRIBUTE}
+                        value={member[attribute]} 
+                        onChange={e => handleValueChange(index, e)} 
+                        placeholder={`${MIN_ATTRIBUTE}-${MAX_ATTRIBUTE}`} 
+                        className="pixel-input"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {members.length < MAX_PARTY_SIZE && (
+              <button onClick={addMember} className="pixel-button small">+ Add Character</button>
+            )}
           </div>
           
           <div className="encryption-preview pixel-preview">
             <h4 className="pixel-subheading">Encryption Preview</h4>
             <div className="preview-container">
               <div className="plain-data pixel-data">
-                <span>Plain Values:</span>
-                <div>STR: {dungeonData.strength || '0'}, AGI: {dungeonData.agility || '0'}, INT: {dungeonData.intelligence || '0'}</div>
+                <span>Party Totals:</span>
+                <div>STR: {totals.strength}, AGI: {totals.agility}, INT: {totals.intelligence}</div>
               </div>
               <div className="encryption-arrow pixel-arrow">→</div>
               <div className="encrypted-data pixel-data">
                 <span>Encrypted Data:</span>
-                <div>
-                  {dungeonData.strength && dungeonData.agility && dungeonData.intelligence ? 
-                    FHEEncryptNumber(dungeonData.strength * 10000 + dungeonData.agility * 100 + dungeonData.intelligence).substring(0, 50) + '...' : 
-                    'No values entered'}
-                </div>
+                <div>{members.length} × (3 euint32 handles + input proof)</div>
               </div>
             </div>
           </div>
@@ -652,10 +1246,10 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
           <button onClick={onClose} className="pixel-button cancel">Cancel</button>
           <button 
             onClick={handleSubmit} 
-            disabled={creating} 
+            disabled={creating || cooldown > 0} 
             className="pixel-button primary"
           >
-            {creating ? "Encrypting with FHE..." : "Create Dungeon"}
+            {creating ? "Encrypting with FHE..." : cooldown > 0 ? `Cooldown ${cooldown}s` : `Submit ${members.length} Character${members.length > 1 ? "s" : ""}`}
           </button>
         </div>
       </div>
@@ -665,26 +1259,50 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
 
 interface DungeonDetailModalProps {
   dungeon: DungeonRecord;
+  /** Read with the page; null until it arrives */
+  batch: BatchState | null;
   onClose: () => void;
   decryptedAttributes: { strength: number, agility: number, intelligence: number } | null;
   setDecryptedAttributes: (value: { strength: number, agility: number, intelligence: number } | null) => void;
   isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<{ strength: number, agility: number, intelligence: number } | null>;
-  dungeonLayout: string[];
+  decryptWithSignature: (dungeon: DungeonRecord) => Promise<{ strength: number, agility: number, intelligence: number } | null>;
+  exploration: Exploration | null;
+  onAction: (action: ExplorationAction) => void;
+  onRecord: () => void;
 }
 
 const DungeonDetailModal: React.FC<DungeonDetailModalProps> = ({ 
   dungeon, 
+  batch,
   onClose, 
   decryptedAttributes, 
   setDecryptedAttributes, 
   isDecrypting, 
   decryptWithSignature,
-  dungeonLayout 
+  exploration,
+  onAction,
+  onRecord
 }) => {
+  const [verification, setVerification] = useState<string | null>(null);
+
+  // Anyone can rebuild the map from the decrypted seed and totals and replay the stored action log
+  const verifyRun = async () => {
+    try {
+      if (dungeon.seed === null || !dungeon.partyTotals || dungeon.actionLog === null) throw new Error("Nothing to replay");
+      const floors = await loadFloors(dungeon.generatorVersion, dungeon.seed, dungeon.partyTotals);
+      const replayed = replayExploration({ floors, seed: dungeon.seed, party: dungeon.partyTotals }, decodeActions(dungeon.actionLog));
+      const matches = replayed.outcome === dungeon.outcome
+        && replayed.monstersDefeated === dungeon.monstersDefeated
+        && replayed.treasuresFound === dungeon.treasuresFound;
+      setVerification(matches ? `Verified: ${replayed.turn} turns replay to ${replayed.outcome}` : "Mismatch: replay does not match the recorded outcome");
+    } catch (e: any) {
+      setVerification("Replay failed: " + (e.message || "Unknown error"));
+    }
+  };
+
   const handleDecrypt = async () => {
     if (decryptedAttributes !== null) { setDecryptedAttributes(null); return; }
-    const decrypted = await decryptWithSignature(dungeon.encryptedAttributes);
+    const decrypted = await decryptWithSignature(dungeon);
     if (decrypted !== null) setDecryptedAttributes(decrypted);
   };
 
@@ -701,6 +1319,22 @@ const DungeonDetailModal: React.FC<DungeonDetailModalProps> = ({
               <span>Status:</span>
               <strong className={`pixel-badge ${dungeon.status}`}>{dungeon.status}</strong>
             </div>
+            <div className="info-item">
+              <span>Batch:</span>
+              <strong>#{dungeon.batchId}{batch && ` (${batch.open ? "open" : "closed"})`}</strong>
+            </div>
+            <div className="info-item">
+              <span>Party:</span>
+              <strong>
+                {dungeon.party.length > 0
+                  ? dungeon.party.map(m => `${CHARACTER_CLASSES[m.characterClass].icon} ${m.name}`).join(", ")
+                  : "-"} ({dungeon.membersSubmitted}/{dungeon.partySize} submitted)
+              </strong>
+            </div>
+            <div className="info-item">
+              <span>Generator:</span>
+              <strong>v{dungeon.generatorVersion}</strong>
+            </div>
             <div className="info-item">
               <span>Created:</span>
               <strong>{new Date(dungeon.timestamp * 1000).toLocaleString()}</strong>
@@ -711,6 +1345,12 @@ const DungeonDetailModal: React.FC<DungeonDetailModalProps> = ({
             </div>
             {dungeon.status === "completed" && (
               <>
+                {dungeon.outcome && (
+                  <div className="info-item">
+                    <span>Outcome:</span>
+                    <strong>{dungeon.outcome}</strong>
+                  </div>
+                )}
                 <div className="info-item">
                   <span>Monsters Defeated:</span>
                   <strong>{dungeon.monstersDefeated}</strong>
@@ -719,6 +1359,18 @@ const DungeonDetailModal: React.FC<DungeonDetailModalProps> = ({
                   <span>Treasures Found:</span>
                   <strong>{dungeon.treasuresFound}</strong>
                 </div>
+                {dungeon.floorProgress.map((floor, index) => (
+                  <div className="info-item" key={index}>
+                    <span>Floor {index + 1}:</span>
+                    <strong>{floor.roomsVisited} rooms · {floor.monstersDefeated} monsters · {floor.treasuresFound} treasures</strong>
+                  </div>
+                ))}
+                {dungeon.actionLog !== null && (
+                  <div className="info-item">
+                    <button className="pixel-button small" onClick={verifyRun}>Verify Run</button>
+                    {verification && <span className="pixel-text">{verification}</span>}
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -726,7 +1378,16 @@ const DungeonDetailModal: React.FC<DungeonDetailModalProps> = ({
           <div className="encrypted-data-section pixel-section">
             <h3 className="pixel-subheading">Encrypted Party Attributes</h3>
             <div className="encrypted-data pixel-code">
-              {dungeon.encryptedAttributes.substring(0, 100)}...
+              {batch ? (
+                <>
+                  <div>STR: {batch.ciphertexts.strength}</div>
+                  <div>AGI: {batch.ciphertexts.agility}</div>
+                  <div>INT: {batch.ciphertexts.intellect}</div>
+                  <div>SEED: {batch.ciphertexts.seed}</div>
+                </>
+              ) : (
+                <div>Loading batch #{dungeon.batchId}...</div>
+              )}
             </div>
             <button 
               className="pixel-button decrypt-btn" 
@@ -757,28 +1418,8 @@ const DungeonDetailModal: React.FC<DungeonDetailModalProps> = ({
             </div>
           )}
           
-          {dungeonLayout.length > 0 && (
-            <div className="dungeon-map-section pixel-section">
-              <h3 className="pixel-subheading">Dungeon Map</h3>
-              <div className="dungeon-map pixel-map">
-                {dungeonLayout.map((row, i) => (
-                  <div key={i} className="dungeon-row pixel-row">
-                    {row.split(' | ').map((room, j) => (
-                      <div key={j} className={`dungeon-room pixel-room ${room.toLowerCase()}`}>
-                        {room.substring(0, 1)}
-                      </div>
-                    ))}
-                  </div>
-                ))}
-              </div>
-              <div className="map-legend pixel-legend">
-                <div><span className="pixel-room empty">E</span> Empty</div>
-                <div><span className="pixel-room monster">M</span> Monster</div>
-                <div><span className="pixel-room treasure">T</span> Treasure</div>
-                <div><span className="pixel-room boss">B</span> Boss</div>
-                <div><span className="pixel-room trap">X</span> Trap</div>
-              </div>
-            </div>
+          {exploration && (
+            <ExplorationPanel exploration={exploration} onAction={onAction} onRecord={onRecord} />
           )}
         </div>
         <div className="modal-footer">
@@ -789,4 +1430,137 @@ const DungeonDetailModal: React.FC<DungeonDetailModalProps> = ({
   );
 };
 
+
+interface ExplorationPanelProps {
+  exploration: Exploration;
+  onAction: (action: ExplorationAction) => void;
+  onRecord: () => void;
+}
+
+const ExplorationPanel: React.FC<ExplorationPanelProps> = ({ exploration, onAction, onRecord }) => {
+  const { setup, state } = exploration;
+  // null follows the party; otherwise the floor picked in the switcher
+  const [viewedFloor, setViewedFloor] = useState<number | null>(null);
+  const floor = viewedFloor ?? state.floor;
+  const map = setup.floors[floor];
+  const visible = visibleTiles(setup, state, floor);
+  const moves = availableMoves(setup, state);
+  const partyRoom = floor === state.floor ? map.rooms[state.position] : null;
+  const reachedFloors = state.floors.filter(progress => progress.visited.some(Boolean)).length;
+
+  return (
+    <div className="dungeon-map-section pixel-section">
+      <h3 className="pixel-subheading">Dungeon Map</h3>
+      <div className="floor-switcher">
+        {setup.floors.map((_, index) => (
+          <button 
+            key={index}
+            className={`pixel-button small ${index === floor ? "active" : ""}`}
+            disabled={index >= reachedFloors}
+            onClick={() => setViewedFloor(index === state.floor ? null : index)}
+          >
+            Floor {index + 1}{index === state.floor ? " @" : ""}
+          </button>
+        ))}
+      </div>
+      <div className="dungeon-map pixel-map" style={{ gridTemplateColumns: `repeat(${map.width}, 1fr)` }}>
+        {map.tiles.map((row, y) => row.map((tile, x) => {
+          if (!visible[y][x]) return <div key={`${x},${y}`} className="map-tile fog"></div>;
+          const room = tile.roomId !== null ? map.rooms[tile.roomId] : null;
+          const isCenter = room !== null && room.center.x === x && room.center.y === y;
+          const isParty = partyRoom !== null && partyRoom.center.x === x && partyRoom.center.y === y;
+          const hidden = tile.kind === "door" && map.doors.some(door => door.hidden && door.position.x === x && door.position.y === y);
+          return (
+            <div key={`${x},${y}`} className={`map-tile ${room && tile.kind === "floor" ? room.type : hidden ? "door hidden" : tile.kind}${isParty ? " party" : ""}`}>
+              {isParty ? "@" : isCenter ? (room.type === "entrance" && floor > 0 ? "<" : ROOM_LABELS[room.type]) : ""}
+            </div>
+          );
+        }))}
+      </div>
+      <div className="map-summary pixel-text">
+        {map.strategy === "bsp" ? "Chambers" : "Caverns"} · {map.rooms.length} rooms · {map.corridors.length} corridors · {map.doors.length} doors
+        <br />
+        Ruleset v{map.params.rulesetVersion} · Monster tier {map.params.monsterTier} · Best loot {map.params.lootRarity}
+      </div>
+      <div className="exploration-status pixel-info">
+        <div className="info-item"><span>Turn:</span><strong>{state.turn}</strong></div>
+        <div className="info-item"><span>HP:</span><strong>{state.hp} / {state.maxHp}</strong></div>
+        <div className="info-item"><span>Mana:</span><strong>{state.mana} / {state.maxMana}</strong></div>
+        <div className="info-item"><span>Floor:</span><strong>{state.floor + 1} / {setup.floors.length}</strong></div>
+        <div className="info-item"><span>Room:</span><strong>#{state.position} ({setup.floors[state.floor].rooms[state.position].type})</strong></div>
+        <div className="info-item"><span>Monsters Defeated:</span><strong>{state.monstersDefeated}</strong></div>
+        <div className="info-item"><span>Treasures Found:</span><strong>{state.treasuresFound}</strong></div>
+      </div>
+      <div className="exploration-actions">
+        {state.outcome ? (
+          <>
+            <div className={`exploration-outcome ${state.outcome} pixel-text`}>Run ended: {state.outcome}</div>
+            <button className="pixel-button primary" onClick={onRecord}>Record Outcome</button>
+          </>
+        ) : state.encounter ? (
+          <>
+            <button className="pixel-button" onClick={() => onAction({ type: "attack" })}>Attack</button>
+            <button className="pixel-button" disabled={!canCastSpell(setup, state, "fireball")} onClick={() => onAction({ type: "cast", spell: "fireball" })}>Fireball</button>
+            <button className="pixel-button" disabled={!canCastSpell(setup, state, "heal")} onClick={() => onAction({ type: "cast", spell: "heal" })}>Heal</button>
+            {state.previous !== null && <button className="pixel-button" onClick={() => onAction({ type: "flee" })}>Flee</button>}
+          </>
+        ) : (
+          <>
+            {moves.map(roomId => (
+              <button key={roomId} className="pixel-button small" onClick={() => onAction({ type: "move", roomId })}>
+                Go to #{roomId}{state.floors[state.floor].visited[roomId] ? ` (${setup.floors[state.floor].rooms[roomId].type})` : ""}
+              </button>
+            ))}
+            {canSolve(setup, state) && <button className="pixel-button" onClick={() => onAction({ type: "solve" })}>Solve Puzzle</button>}
+            {canDescend(setup, state) && <button className="pixel-button" onClick={() => onAction({ type: "descend" })}>Descend</button>}
+            {canAscend(setup, state) && <button className="pixel-button" onClick={() => onAction({ type: "ascend" })}>Ascend</button>}
+            <button className="pixel-button" onClick={() => onAction({ type: "search" })}>Search</button>
+            {canRetreat(setup, state) && <button className="pixel-button cancel" onClick={() => onAction({ type: "retreat" })}>Retreat</button>}
+          </>
+        )}
+      </div>
+      <div className="exploration-log pixel-code">
+        {state.log.slice(-8).map((line, i) => <div key={i}>{line}</div>)}
+      </div>
+      <div className="map-legend pixel-legend">
+        <div><span className="map-tile entrance">S</span> Entrance</div>
+        <div><span className="map-tile empty">E</span> Empty</div>
+        <div><span className="map-tile monster">M</span> Monster</div>
+        <div><span className="map-tile treasure">T</span> Treasure</div>
+        <div><span className="map-tile stairs">&gt;</span> Stairs Down</div>
+        <div><span className="map-tile boss">B</span> Boss (Last Floor)</div>
+        <div><span className="map-tile trap">X</span> Trap</div>
+        <div><span className="map-tile puzzle">P</span> Puzzle</div>
+        <div><span className="map-tile secret">?</span> Secret</div>
+        <div><span className="map-tile corridor"></span> Corridor</div>
+        <div><span className="map-tile door"></span> Door</div>
+        <div><span className="map-tile door hidden"></span> Secret Door</div>
+        <div><span className="map-tile party">@</span> Party</div>
+        <div><span className="map-tile fog"></span> Unexplored</div>
+      </div>
+    </div>
+  );
+};
+
+interface RecordWarningProps {
+  records: RejectedRecord[];
+  summary: (count: number) => string;
+  className?: string;
+}
+
+// Lists hidden dungeon records with the reason each was rejected
+const RecordWarning: React.FC<RecordWarningProps> = ({ records, summary, className }) => {
+  if (records.length === 0) return null;
+  return (
+    <details className={`record-warning ${className ?? ""}`}>
+      <summary>{summary(records.length)}</summary>
+      <ul>
+        {records.map(rejected => (
+          <li key={rejected.dungeonId}><code>{rejected.dungeonId}</code>: {rejected.reason}</li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,47 @@
+// cache/dungeonCache.ts
+// Local copy of what the app shows, per chain and contract pair: the last
+// dungeon list, decryption permits and generated floor layouts. The app
+// renders the list from here straight away and reconciles it with the chain
+// in the background. The memory cache is the reference implementation and the
+// fallback without IndexedDB; indexedDbCache.ts keeps the same contents across
+// reloads.
+import type { StoredPermit } from "../permit";
+import type { DungeonMap } from "../game/dungeonMap";
+
+export interface DungeonCache {
+  /** False for the memory fallback, whose contents end with the page */
+  persistent: boolean;
+  /** Last state the app built under this name, null before the first */
+  getSnapshot<T>(name: string): Promise<T | null>;
+  putSnapshot<T>(name: string, value: T): Promise<void>;
+  /** Permits are kept per user; the cache is already per contract */
+  getPermit(userAddress: string): Promise<StoredPermit | null>;
+  putPermit(permit: StoredPermit): Promise<void>;
+  deletePermit(userAddress: string): Promise<void>;
+  /** Floors for a key from layoutKey, which fixes everything generation depends on */
+  getLayout(key: string): Promise<DungeonMap[] | null>;
+  putLayout(key: string, floors: DungeonMap[]): Promise<void>;
+}
+
+// A generator version never changes its output, so its floors only depend on the seed and the totals
+export const layoutKey = (generatorVersion: number, seed: number, totals: { strength: number; agility: number; intelligence: number }) =>
+  `v${generatorVersion}:${seed}:${totals.strength},${totals.agility},${totals.intelligence}`;
+
+export const permitKey = (userAddress: string) => userAddress.toLowerCase();
+
+export function createMemoryCache(): DungeonCache {
+  const snapshots = new Map<string, unknown>();
+  const permits = new Map<string, StoredPermit>();
+  const layouts = new Map<string, DungeonMap[]>();
+
+  return {
+    persistent: false,
+    getSnapshot: async <T>(name: string) => (snapshots.get(name) as T | undefined) ?? null,
+    putSnapshot: async (name, value) => { snapshots.set(name, value); },
+    getPermit: async (userAddress) => permits.get(permitKey(userAddress)) ?? null,
+    putPermit: async (permit) => { permits.set(permitKey(permit.userAddress), permit); },
+    deletePermit: async (userAddress) => { permits.delete(permitKey(userAddress)); },
+    getLayout: async (key) => layouts.get(key) ?? null,
+    putLayout: async (key, floors) => { layouts.set(key, floors); }
+  };
+}
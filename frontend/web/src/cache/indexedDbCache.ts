@@ -0,0 +1,66 @@
+// cache/indexedDbCache.ts
+// IndexedDB flavour of DungeonCache, so a returning browser shows its
+// dungeons before the first RPC call answers.
+import type { StoredPermit } from "../permit";
+import type { DungeonMap } from "../game/dungeonMap";
+import { DungeonCache, createMemoryCache, permitKey } from "./dungeonCache";
+
+const SNAPSHOTS = "snapshots";
+const PERMITS = "permits";
+const LAYOUTS = "layouts";
+// Raised when a layout key stops meaning the floors stored under it. Version 2 renumbered the
+// generators, so the upgrade drops the layouts kept under their old numbers
+const DB_VERSION = 2;
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openDatabase = (name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const open = indexedDB.open(name, DB_VERSION);
+  open.onupgradeneeded = () => {
+    const stores = open.result.objectStoreNames;
+    if (stores.contains(LAYOUTS)) open.result.deleteObjectStore(LAYOUTS);
+    if (!stores.contains(SNAPSHOTS)) open.result.createObjectStore(SNAPSHOTS);
+    if (!stores.contains(PERMITS)) open.result.createObjectStore(PERMITS);
+    open.result.createObjectStore(LAYOUTS);
+  };
+  open.onsuccess = () => resolve(open.result);
+  open.onerror = () => reject(open.error);
+});
+
+export async function createIndexedDbCache(name: string): Promise<DungeonCache> {
+  const db = await openDatabase(name);
+
+  const read = async <T>(store: string, key: string): Promise<T | null> =>
+    (await request<T | undefined>(db.transaction(store, "readonly").objectStore(store).get(key))) ?? null;
+
+  const write = async (store: string, key: string, value: unknown) => {
+    await request(db.transaction(store, "readwrite").objectStore(store).put(value, key));
+  };
+
+  return {
+    persistent: true,
+    getSnapshot: <T>(name: string) => read<T>(SNAPSHOTS, name),
+    putSnapshot: (name, value) => write(SNAPSHOTS, name, value),
+    getPermit: (userAddress) => read<StoredPermit>(PERMITS, permitKey(userAddress)),
+    putPermit: (permit) => write(PERMITS, permitKey(permit.userAddress), permit),
+    deletePermit: async (userAddress) => {
+      await request(db.transaction(PERMITS, "readwrite").objectStore(PERMITS).delete(permitKey(userAddress)));
+    },
+    getLayout: (key) => read<DungeonMap[]>(LAYOUTS, key),
+    putLayout: (key, floors) => write(LAYOUTS, key, floors)
+  };
+}
+
+// IndexedDB when the browser has it (and lets us open it), memory otherwise
+export async function openDungeonCache(name: string): Promise<DungeonCache> {
+  if (typeof indexedDB === "undefined") return createMemoryCache();
+  try {
+    return await createIndexedDbCache(name);
+  } catch (e) {
+    console.warn("IndexedDB unavailable, caching in memory:", e);
+    return createMemoryCache();
+  }
+}
@@ -0,0 +1,285 @@
+// components/AdminConsole.tsx
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { getDungeonGenReadOnly, getDungeonGenWithSigner, getEventIndexer, isDungeonGenDeployed, normAddr, describeContractError } from "../contract";
+import type { DungeonGenFHE } from "../../../../types";
+
+type TransactionState = "pending" | "success" | "error";
+
+interface ContractSnapshot {
+  owner: string;
+  currentBatchId: number;
+  batchOpen: boolean;
+  paused: boolean;
+  cooldownSeconds: number;
+  /** Every address ever added as a provider, with its current status */
+  providers: { address: string; active: boolean }[];
+}
+
+// An owner action waiting on the confirmation dialog
+interface PendingAction {
+  title: string;
+  warning: string;
+  label: string;
+  send: (dungeonGen: DungeonGenFHE) => Promise<ethers.ContractTransactionResponse>;
+}
+
+interface AdminConsoleProps {
+  onStatus: (status: TransactionState, message: string) => void;
+  /** Called after every confirmed transaction so the rest of the app can reload */
+  onChanged: () => void;
+}
+
+// Null only when nothing is deployed at the configured address; any read failure rejects
+const loadSnapshot = async (): Promise<ContractSnapshot | null> => {
+  if (!(await isDungeonGenDeployed())) return null;
+  const dungeonGen = await getDungeonGenReadOnly();
+  if (!dungeonGen) throw new Error("Could not connect to DungeonGenFHE");
+  const [owner, currentBatchId, paused, cooldownSeconds] = await Promise.all([
+    dungeonGen.owner(),
+    dungeonGen.currentBatchId(),
+    dungeonGen.paused(),
+    dungeonGen.cooldownSeconds()
+  ]);
+  const batch = await dungeonGen.batches(currentBatchId);
+
+  // The contract keeps no provider list, so rebuild it from the indexed add/remove events; the latest one per address wins
+  const indexer = await getEventIndexer();
+  await indexer.sync();
+  const active = new Map<string, boolean>();
+  for (const event of await indexer.store.query({ names: ["ProviderAdded", "ProviderRemoved"] })) {
+    if (event.name === "ProviderAdded" || event.name === "ProviderRemoved") active.set(event.provider, event.name === "ProviderAdded");
+  }
+  const providers = [...active].map(([address, isActive]) => ({ address, active: isActive }));
+
+  return {
+    owner,
+    currentBatchId: Number(currentBatchId),
+    batchOpen: batch.open,
+    paused,
+    cooldownSeconds: Number(cooldownSeconds),
+    providers
+  };
+};
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ onStatus, onChanged }) => {
+  const [snapshot, setSnapshot] = useState<ContractSnapshot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [cooldownInput, setCooldownInput] = useState("");
+  const [providerInput, setProviderInput] = useState("");
+  const [newOwnerInput, setNewOwnerInput] = useState("");
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const next = await loadSnapshot();
+      setSnapshot(next);
+      setLoadError(null);
+      if (next) setCooldownInput(String(next.cooldownSeconds));
+    } catch (e) {
+      console.error("Error loading contract state:", e);
+      setLoadError(await describeContractError(e, "Could not load contract state"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const run = async (action: PendingAction) => {
+    setPending(null);
+    setBusy(true);
+    onStatus("pending", `${action.label}...`);
+    try {
+      const dungeonGen = await getDungeonGenWithSigner();
+      const tx = await action.send(dungeonGen);
+      await tx.wait();
+      onStatus("success", `${action.label} confirmed`);
+      await refresh();
+      onChanged();
+    } catch (e: any) {
+      onStatus("error", await describeContractError(e, `${action.label} failed`));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Reversible settings go straight out; anything that cannot be undone waits for the dialog
+  const request = (action: PendingAction, confirm: boolean) => confirm ? setPending(action) : run(action);
+
+  if (loading && !snapshot) return <div className="admin-section pixel-panel"><p>Loading contract state...</p></div>;
+  if (!snapshot && loadError) {
+    return (
+      <div className="admin-section pixel-panel">
+        <p>{loadError}</p>
+        <button onClick={refresh} className="pixel-button" disabled={loading}>Retry</button>
+      </div>
+    );
+  }
+  if (!snapshot) return <div className="admin-section pixel-panel"><p>DungeonGenFHE is not deployed on this network.</p></div>;
+
+  const openBatch = () => request({
+    title: "Open a new batch",
+    warning: snapshot.batchOpen
+      ? `Batch #${snapshot.currentBatchId} is still open. Opening a new batch abandons it for good: its submissions can no longer be closed or decrypted.`
+      : "A new batch will start accepting party submissions.",
+    label: "Opening batch",
+    send: dungeonGen => dungeonGen.openBatch()
+  }, snapshot.batchOpen);
+
+  const closeBatch = () => request({
+    title: `Close batch #${snapshot.currentBatchId}`,
+    warning: "A closed batch cannot be reopened. No further parties can be submitted and no seed can be generated for it.",
+    label: "Closing batch",
+    send: dungeonGen => dungeonGen.closeBatch()
+  }, true);
+
+  const togglePaused = () => request({
+    title: snapshot.paused ? "Unpause" : "Pause",
+    warning: "",
+    label: snapshot.paused ? "Unpausing contract" : "Pausing contract",
+    send: dungeonGen => dungeonGen.setPaused(!snapshot.paused)
+  }, false);
+
+  const updateCooldown = () => {
+    const seconds = Number(cooldownInput);
+    if (!Number.isInteger(seconds) || seconds < 0) { alert("Cooldown must be a whole number of seconds"); return; }
+    request({
+      title: "Set cooldown",
+      warning: "",
+      label: `Setting cooldown to ${seconds}s`,
+      send: dungeonGen => dungeonGen.setCooldownSeconds(seconds)
+    }, false);
+  };
+
+  const addProvider = () => {
+    if (!ethers.isAddress(providerInput)) { alert("Please enter a valid address"); return; }
+    const provider = ethers.getAddress(providerInput);
+    request({
+      title: "Add provider",
+      warning: "",
+      label: `Adding provider ${provider}`,
+      send: dungeonGen => dungeonGen.addProvider(provider)
+    }, false);
+    setProviderInput("");
+  };
+
+  const removeProvider = (provider: string) => request({
+    title: "Remove provider",
+    warning: normAddr(provider) === normAddr(snapshot.owner)
+      ? "This is the owner's own provider slot. The owner will no longer be able to submit parties or generate seeds until re-added."
+      : `${provider} will no longer be able to submit parties or generate seeds.`,
+    label: `Removing provider ${provider}`,
+    send: dungeonGen => dungeonGen.removeProvider(provider)
+  }, true);
+
+  const transferOwnership = () => {
+    if (!ethers.isAddress(newOwnerInput)) { alert("Please enter a valid address"); return; }
+    const newOwner = ethers.getAddress(newOwnerInput);
+    request({
+      title: "Transfer ownership",
+      warning: `${newOwner} becomes the only account able to run this console. You lose every owner permission immediately, and only the new owner can give them back.`,
+      label: "Transferring ownership",
+      send: dungeonGen => dungeonGen.transferOwnership(newOwner)
+    }, true);
+    setNewOwnerInput("");
+  };
+
+  return (
+    <div className="admin-section pixel-panel">
+      <div className="section-header pixel-header">
+        <h2>Admin Console</h2>
+        <button onClick={refresh} className="pixel-button" disabled={loading || busy}>
+          {loading ? "Refreshing..." : "Refresh"}
+        </button>
+      </div>
+      {loadError && <p className="admin-note">{loadError}. Showing the last state read.</p>}
+
+      <div className="stats-container">
+        <div className="stat-item">
+          <div className="stat-value">#{snapshot.currentBatchId}</div>
+          <div className="stat-label">Batch {snapshot.batchOpen ? "open" : "closed"}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{snapshot.paused ? "Paused" : "Live"}</div>
+          <div className="stat-label">Contract</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{snapshot.cooldownSeconds}s</div>
+          <div className="stat-label">Cooldown</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{snapshot.providers.filter(p => p.active).length}</div>
+          <div className="stat-label">Providers</div>
+        </div>
+      </div>
+
+      <div className="admin-group">
+        <h3>Batch Lifecycle</h3>
+        <div className="admin-actions">
+          <button className="pixel-button primary" onClick={openBatch} disabled={busy || snapshot.paused}>Open New Batch</button>
+          <button className="pixel-button" onClick={closeBatch} disabled={busy || snapshot.paused || !snapshot.batchOpen}>Close Batch #{snapshot.currentBatchId}</button>
+          <button className="pixel-button" onClick={togglePaused} disabled={busy}>{snapshot.paused ? "Unpause" : "Pause"}</button>
+        </div>
+        {snapshot.paused && <p className="admin-note">Batches cannot be opened or closed while the contract is paused.</p>}
+      </div>
+
+      <div className="admin-group">
+        <h3>Cooldown</h3>
+        <div className="admin-form">
+          <input type="number" min={0} className="pixel-input" value={cooldownInput} onChange={e => setCooldownInput(e.target.value)} />
+          <button className="pixel-button" onClick={updateCooldown} disabled={busy || Number(cooldownInput) === snapshot.cooldownSeconds}>Set Seconds</button>
+        </div>
+      </div>
+
+      <div className="admin-group">
+        <h3>Providers</h3>
+        <ul className="admin-providers">
+          {snapshot.providers.map(provider => (
+            <li key={provider.address} className={provider.active ? "" : "inactive"}>
+              <span className="pixel-code">{provider.address}</span>
+              {normAddr(provider.address) === normAddr(snapshot.owner) && <span className="admin-tag">owner</span>}
+              {provider.active
+                ? <button className="pixel-button cancel" onClick={() => removeProvider(provider.address)} disabled={busy}>Remove</button>
+                : <span className="admin-tag">removed</span>}
+            </li>
+          ))}
+        </ul>
+        <div className="admin-form">
+          <input className="pixel-input" placeholder="0x..." value={providerInput} onChange={e => setProviderInput(e.target.value)} />
+          <button className="pixel-button" onClick={addProvider} disabled={busy || !providerInput}>Add Provider</button>
+        </div>
+      </div>
+
+      <div className="admin-group danger">
+        <h3>Transfer Ownership</h3>
+        <div className="admin-form">
+          <input className="pixel-input" placeholder="New owner 0x..." value={newOwnerInput} onChange={e => setNewOwnerInput(e.target.value)} />
+          <button className="pixel-button cancel" onClick={transferOwnership} disabled={busy || !newOwnerInput}>Transfer</button>
+        </div>
+      </div>
+
+      {pending && (
+        <div className="modal-overlay pixel-overlay">
+          <div className="confirm-modal pixel-panel">
+            <div className="modal-header">
+              <h2 className="pixel-heading">{pending.title}?</h2>
+            </div>
+            <div className="modal-body">
+              <p>{pending.warning}</p>
+            </div>
+            <div className="modal-footer">
+              <button onClick={() => setPending(null)} className="pixel-button">Cancel</button>
+              <button onClick={() => run(pending)} className="pixel-button cancel">Confirm</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminConsole;
@@ -2,8 +2,19 @@
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { DungeonGenFHE, DungeonGenFHE__factory } from "../../../types";
+import { EventIndexer, createEventIndexer } from "./indexer/indexer";
+import { openIndexerStore } from "./indexer/indexedDbStore";
+import { DecryptionTracker, createDecryptionTracker } from "./decryptionTracker";
+import { DEFAULT_RPC_URLS, ProviderPool, createProviderPool } from "./rpcPool";
+import { Multicall, createMulticall } from "./multicall";
+import { createErrorDescriber } from "./contractErrors";
+import type { DungeonCache } from "./cache/dungeonCache";
+import { openDungeonCache } from "./cache/indexedDbCache";
 
-export const ABI = (abiJson as any).abi || abiJson;
+// UniversalAdapter has no source here, so its ABI is the artifact deploy.ts copies; DungeonGenFHE comes from typechain
+export const ABI: ethers.InterfaceAbi = abiJson.abi;
+export const DUNGEON_GEN_ABI = DungeonGenFHE__factory.abi;
 export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
@@ -18,40 +29,34 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+// VITE_RPC_URLS_<chainId> (comma separated, for keyed endpoints) first, then the deployed config's RPC, then public defaults
+export function rpcUrlsFor(chainId: number): string[] {
+  const fromEnv = ((import.meta.env[`VITE_RPC_URLS_${chainId}`] as string | undefined) ?? "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+  const configured = chainId === config.chainId ? [config.network] : [];
+  return [...new Set([...fromEnv, ...configured, ...(DEFAULT_RPC_URLS[chainId] ?? [])])];
+}
+
+const pools = new Map<number, ProviderPool>();
+
+// One pool per chain for the whole session, health-checked in the background
+export function getProviderPool(chainId: number = config.chainId): ProviderPool {
+  let pool = pools.get(chainId);
+  if (!pool) {
+    pool = createProviderPool({ chainId, urls: rpcUrlsFor(chainId) });
+    pool.start();
+    pools.set(chainId, pool);
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return pool;
+}
+
+const getReadProvider = () => getProviderPool().ready();
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
+    const provider = await getReadProvider();
     const contract = new ethers.Contract(config.contractAddress, ABI, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
@@ -66,13 +71,17 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getBrowserSigner(): Promise<ethers.Signer> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner() {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
+    const signer = await getBrowserSigner();
     const contract = new ethers.Contract(config.contractAddress, ABI, signer);
     return contract;
   } catch (error) {
@@ -81,6 +90,106 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getDungeonGenReadOnly(): Promise<DungeonGenFHE | null> {
+  try {
+    const provider = await getReadProvider();
+    const code = await retry(() => provider.getCode(config.dungeonGenAddress));
+    if (code === "0x") {
+      return null;
+    }
+
+    return DungeonGenFHE__factory.connect(config.dungeonGenAddress, provider);
+  } catch (error) {
+    console.error("Failed to create read-only DungeonGenFHE contract:", error);
+    return null;
+  }
+}
+
+// Unlike getDungeonGenReadOnly, an unreachable RPC rejects instead of reading as "not deployed"
+export async function isDungeonGenDeployed(): Promise<boolean> {
+  const provider = await getReadProvider();
+  return (await retry(() => provider.getCode(config.dungeonGenAddress))) !== "0x";
+}
+
+export async function getDungeonGenWithSigner(): Promise<DungeonGenFHE> {
+  try {
+    const signer = await getBrowserSigner();
+    return DungeonGenFHE__factory.connect(config.dungeonGenAddress, signer);
+  } catch (error) {
+    console.error("Failed to create DungeonGenFHE contract with signer:", error);
+    throw error;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
+}
+
+// Readable message for a failed DungeonGenFHE call, reading any remaining cooldown from the deployed contract
+export const describeContractError = createErrorDescriber(getDungeonGenReadOnly);
+
+let multicallPromise: Promise<Multicall> | null = null;
+
+// One queue for every batched view call on the configured chain
+export function getMulticall(): Promise<Multicall> {
+  if (!multicallPromise) {
+    multicallPromise = getReadProvider().then(provider => createMulticall(provider)).catch((e) => {
+      multicallPromise = null;
+      throw e;
+    });
+  }
+  return multicallPromise;
+}
+
+let cachePromise: Promise<DungeonCache> | null = null;
+
+// Same chain and contract pair as the indexer store, so a redeploy starts from an empty cache
+export function getDungeonCache(): Promise<DungeonCache> {
+  if (!cachePromise) {
+    cachePromise = openDungeonCache(
+      `dungeon-cache:${config.chainId}:${normAddr(config.contractAddress)}:${normAddr(config.dungeonGenAddress)}`
+    );
+  }
+  return cachePromise;
+}
+
+let indexerPromise: Promise<EventIndexer> | null = null;
+
+// One indexer per page, persisted per chain and contract pair
+export function getEventIndexer(): Promise<EventIndexer> {
+  if (!indexerPromise) {
+    indexerPromise = (async () => {
+      const provider = await getReadProvider();
+      const store = await openIndexerStore(
+        `dungeon-indexer:${config.chainId}:${normAddr(config.contractAddress)}:${normAddr(config.dungeonGenAddress)}`
+      );
+      return createEventIndexer({
+        provider,
+        addresses: [config.contractAddress, config.dungeonGenAddress],
+        abis: [ABI, DUNGEON_GEN_ABI],
+        store,
+        startBlock: config.deployBlock
+      });
+    })().catch((e) => {
+      indexerPromise = null;
+      throw e;
+    });
+  }
+  return indexerPromise;
+}
+
+let trackerPromise: Promise<DecryptionTracker> | null = null;
+
+export function getDecryptionTracker(): Promise<DecryptionTracker> {
+  if (!trackerPromise) {
+    trackerPromise = getEventIndexer().then((indexer) => {
+      // Resolved once; the tracker probes on every refresh
+      const dungeonGen = getDungeonGenReadOnly();
+      return createDecryptionTracker({ indexer, getDungeonGen: () => dungeonGen });
+    }).catch((e) => {
+      trackerPromise = null;
+      throw e;
+    });
+  }
+  return trackerPromise;
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+// contractErrors.ts
+// Turns DungeonGenFHE reverts into messages a player can act on. Wallets and
+// providers wrap the revert data differently, so it is searched for through
+// the whole error before being decoded against the contract's ABI. Messages
+// are English only, like the rest of the app.
+import { DungeonGenFHE, DungeonGenFHE__factory } from "../../../types";
+
+export type DungeonGenErrorName =
+  | "NotOwner"
+  | "NotProvider"
+  | "Paused"
+  | "CooldownActive"
+  | "BatchClosed"
+  | "ReplayAttempt"
+  | "StateMismatch"
+  | "InvalidBatchId";
+
+export interface ContractErrorContext {
+  /** Wallet that sent the transaction, needed to work out its remaining cooldown */
+  account?: string;
+  /** Which timestamp the cooldown counts from: submitPartyAttributes or generateDungeonSeed */
+  cooldown?: "submission" | "decryption";
+}
+
+const ERROR_MESSAGES: Record<DungeonGenErrorName, (remainingSeconds: number | null) => string> = {
+  NotOwner: () => "Only the contract owner can do this. Switch to the owner wallet.",
+  NotProvider: () => "This wallet is not a registered provider. Ask the contract owner to add it.",
+  Paused: () => "The contract is paused by its owner. Try again once it is unpaused.",
+  CooldownActive: (remaining) => remaining !== null && remaining > 0
+    ? `Cooldown active: try again in ${remaining}s.`
+    : "Cooldown active: wait a few seconds and try again.",
+  BatchClosed: () => "The current batch is closed. Wait for the owner to open a new batch.",
+  ReplayAttempt: () => "The oracle already answered this decryption request.",
+  StateMismatch: () => "The batch changed after the seed was requested. Generate the seed again.",
+  InvalidBatchId: () => "That batch does not exist."
+};
+
+const dungeonGenInterface = DungeonGenFHE__factory.createInterface();
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const isRevertData = (value: unknown): value is string => typeof value === "string" && /^0x[0-9a-fA-F]{8}/.test(value);
+
+const isErrorName = (name: unknown): name is DungeonGenErrorName => typeof name === "string" && name in ERROR_MESSAGES;
+
+// Wallets and providers nest the revert data at different depths, so search the whole error
+function findRevertData(e: unknown, depth = 0): string | null {
+  if (!isObject(e) || depth > 4) return null;
+  if (isRevertData(e.data)) return e.data;
+  for (const inner of [e.data, e.error, isObject(e.info) ? e.info.error : null, e.cause]) {
+    const found = findRevertData(inner, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+const parseErrorName = (data: string | null) => {
+  if (!data) return null;
+  try { return dungeonGenInterface.parseError(data)?.name ?? null; } catch { return null; }
+};
+
+export function decodeContractError(e: unknown): DungeonGenErrorName | null {
+  // ethers decodes the revert itself when the call went through a contract with the ABI
+  const decoded = isObject(e) && isObject(e.revert) ? e.revert.name : null;
+  const name = decoded ?? parseErrorName(findRevertData(e));
+  return isErrorName(name) ? name : null;
+}
+
+export const isUserRejection = (e: unknown) =>
+  isObject(e) && (e.code === "ACTION_REJECTED" || (typeof e.message === "string" && e.message.includes("user rejected")));
+
+const rawMessage = (e: unknown) => {
+  if (!isObject(e)) return "Unknown error";
+  const message = [e.shortMessage, e.message].find(text => typeof text === "string" && text !== "");
+  return (message as string | undefined) ?? "Unknown error";
+};
+
+// Seconds until the account's cooldown ends, by the chain's clock; zero or less once it has
+export async function remainingCooldown(dungeonGen: DungeonGenFHE, context: ContractErrorContext): Promise<number | null> {
+  if (!context.account) return null;
+  const [cooldown, last, latest] = await Promise.all([
+    dungeonGen.cooldownSeconds(),
+    context.cooldown === "decryption"
+      ? dungeonGen.lastDecryptionRequestTime(context.account)
+      : dungeonGen.lastSubmissionTime(context.account),
+    dungeonGen.runner!.provider!.getBlock("latest")
+  ]);
+  return Number(last + cooldown) - (latest?.timestamp ?? Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Readable message for a failed DungeonGenFHE call; anything the ABI does not explain keeps its raw message.
+ * The contract to read a cooldown from is only fetched when the error is CooldownActive.
+ */
+export function createErrorDescriber(getDungeonGen: () => Promise<DungeonGenFHE | null>) {
+  return async (e: unknown, fallback: string, context: ContractErrorContext = {}): Promise<string> => {
+    if (isUserRejection(e)) return "Transaction rejected by user";
+    const name = decodeContractError(e);
+    if (!name) return `${fallback}: ${rawMessage(e)}`;
+    let remaining: number | null = null;
+    if (name === "CooldownActive") {
+      try {
+        const dungeonGen = await getDungeonGen();
+        remaining = dungeonGen ? await remainingCooldown(dungeonGen, context) : null;
+      } catch (cooldownError) {
+        console.error("Failed to read the remaining cooldown:", cooldownError);
+      }
+    }
+    return ERROR_MESSAGES[name](remaining);
+  };
+}
@@ -0,0 +1,102 @@
+// cooldown.ts
+// Per-wallet cooldowns of submitPartyAttributes and generateDungeonSeed, read
+// from lastSubmissionTime, lastDecryptionRequestTime and cooldownSeconds so the
+// buttons can wait them out instead of sending a transaction that reverts with
+// CooldownActive. Counted against chain time, since that is what the contract
+// compares with.
+import { useEffect, useRef, useState } from "react";
+import type { DungeonGenFHE } from "../../../types";
+import { getDungeonGenReadOnly, getEventIndexer, normAddr } from "./contract";
+import type { IndexerChange } from "./indexer/indexer";
+
+export interface Cooldowns {
+  /** Seconds until submitPartyAttributes is accepted again */
+  submission: number;
+  /** Seconds until generateDungeonSeed is accepted again */
+  decryption: number;
+}
+
+interface CooldownEnds {
+  /** Chain timestamps at which each cooldown ends */
+  submission: number;
+  decryption: number;
+  /** Chain time minus local time when the ends were read */
+  clockOffset: number;
+}
+
+const NO_COOLDOWNS: Cooldowns = { submission: 0, decryption: 0 };
+
+async function readCooldownEnds(dungeonGen: DungeonGenFHE, account: string): Promise<CooldownEnds> {
+  const [cooldown, lastSubmission, lastDecryption, latest] = await Promise.all([
+    dungeonGen.cooldownSeconds(),
+    dungeonGen.lastSubmissionTime(account),
+    dungeonGen.lastDecryptionRequestTime(account),
+    dungeonGen.runner!.provider!.getBlock("latest")
+  ]);
+  const now = Date.now() / 1000;
+  return {
+    submission: Number(lastSubmission + cooldown),
+    decryption: Number(lastDecryption + cooldown),
+    clockOffset: latest ? latest.timestamp - now : 0
+  };
+}
+
+// Only a new cooldown or a new submission or seed request by someone can move the ends
+const affectsCooldowns = (change: IndexerChange, account: string) =>
+  [...change.added, ...change.removed].some(event =>
+    event.name === "CooldownSecondsChanged"
+    || event.name === "DecryptionRequested"
+    || (event.name === "PartyAttributesSubmitted" && normAddr(event.provider) === normAddr(account))
+  );
+
+export function useCooldowns(account: string | undefined): Cooldowns {
+  const [ends, setEnds] = useState<CooldownEnds | null>(null);
+  const [now, setNow] = useState(() => Date.now() / 1000);
+  const dungeonGen = useRef<Promise<DungeonGenFHE | null> | null>(null);
+
+  useEffect(() => {
+    setEnds(null);
+    if (!account) return;
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+    const refresh = async () => {
+      try {
+        if (!dungeonGen.current) dungeonGen.current = getDungeonGenReadOnly();
+        const contract = await dungeonGen.current;
+        if (!contract) return;
+        const next = await readCooldownEnds(contract, account);
+        if (!cancelled) {
+          setEnds(next);
+          setNow(Date.now() / 1000);
+        }
+      } catch (e) { console.error("Error reading cooldowns:", e); }
+    };
+    refresh();
+    getEventIndexer().then(indexer => {
+      if (cancelled) return;
+      unsubscribe = indexer.subscribe(change => { if (affectsCooldowns(change, account)) refresh(); });
+    }).catch(e => console.error("Error subscribing to cooldown changes:", e));
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [account]);
+
+  const chainNow = now + (ends?.clockOffset ?? 0);
+  const cooldowns = ends
+    ? {
+        submission: Math.max(0, Math.ceil(ends.submission - chainNow)),
+        decryption: Math.max(0, Math.ceil(ends.decryption - chainNow))
+      }
+    : NO_COOLDOWNS;
+  const counting = cooldowns.submission > 0 || cooldowns.decryption > 0;
+
+  // Tick once a second only while a countdown is showing
+  useEffect(() => {
+    if (!counting) return;
+    const timer = setInterval(() => setNow(Date.now() / 1000), 1000);
+    return () => clearInterval(timer);
+  }, [counting]);
+
+  return cooldowns;
+}
@@ -0,0 +1,159 @@
+// decryptionTracker.ts
+// Follows every generateDungeonSeed request from DecryptionRequested to the
+// oracle's DecryptionCompleted, keyed by requestId. The oracle's myCallback can
+// revert (StateMismatch when the batch changed after the request, ReplayAttempt
+// when it was already processed) and a reverted callback leaves no event. So
+// pending requests are probed by static-calling myCallback with an empty proof,
+// which runs the same checks and stops at the signature check if they pass.
+import type { DungeonGenFHE } from "../../../types";
+import type { EventIndexer } from "./indexer/indexer";
+import { decodeContractError } from "./contractErrors";
+
+export type DecryptionStatus = "pending" | "fulfilled" | "failed" | "timedOut";
+
+export interface TrackedDecryption {
+  requestId: string;
+  batchId: number;
+  /** Block timestamp of the request, in seconds */
+  requestedAt: number;
+  status: DecryptionStatus;
+  /** Why the request failed or is taking long, shown as is */
+  message: string | null;
+}
+
+export interface DecryptionTracker {
+  /** Rebuilds every request from the indexed events and probes the pending ones */
+  refresh(): Promise<void>;
+  get(requestId: string): TrackedDecryption | null;
+  /** Newest request per batch; a new request supersedes a failed or stuck one */
+  byBatch(): Map<number, TrackedDecryption>;
+  /** Refreshes on every indexer change and every pollInterval until stopped */
+  start(): void;
+  stop(): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export interface DecryptionTrackerOptions {
+  indexer: EventIndexer;
+  getDungeonGen: () => Promise<DungeonGenFHE | null>;
+  /** Seconds before a pending request is reported as timed out */
+  timeoutSeconds?: number;
+  pollInterval?: number;
+}
+
+export const DECRYPTION_TIMEOUT_SECONDS = 300;
+const DEFAULT_POLL_INTERVAL = 15000;
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  StateMismatch: "StateMismatch: the batch changed after this request (a later submission or seed request), so the oracle callback will be rejected. Generate the seed again.",
+  InvalidBatchId: "InvalidBatchId: the request points at a batch that does not exist."
+};
+
+const REPLAY_MESSAGE = "ReplayAttempt: the oracle already answered this request; waiting for its DecryptionCompleted event.";
+
+export function createDecryptionTracker(options: DecryptionTrackerOptions): DecryptionTracker {
+  const { indexer, getDungeonGen } = options;
+  const timeoutSeconds = options.timeoutSeconds ?? DECRYPTION_TIMEOUT_SECONDS;
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+
+  let requests = new Map<string, TrackedDecryption>();
+  // A revert found by the probe never goes away, so it is remembered rather than probed again
+  const failures = new Map<string, string>();
+  const timestamps = new Map<number, number>();
+  const listeners = new Set<() => void>();
+  let refreshing: Promise<void> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const notify = () => {
+    for (const listener of listeners) {
+      try { listener(); } catch (e) { console.error("Decryption tracker listener failed:", e); }
+    }
+  };
+
+  const blockTimestamp = async (dungeonGen: DungeonGenFHE, blockNumber: number) => {
+    const cached = timestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+    const block = await dungeonGen.runner?.provider?.getBlock(blockNumber);
+    const timestamp = block?.timestamp ?? Math.floor(Date.now() / 1000);
+    timestamps.set(blockNumber, timestamp);
+    return timestamp;
+  };
+
+  // Returns the revert reason when the callback is certain to fail, null when it can still succeed
+  const probe = async (dungeonGen: DungeonGenFHE, requestId: string): Promise<string | null> => {
+    try {
+      await dungeonGen.myCallback.staticCall(requestId, "0x", "0x");
+      return null;
+    } catch (e) {
+      const name = decodeContractError(e);
+      if (name === "ReplayAttempt") return REPLAY_MESSAGE;
+      return name && FAILURE_MESSAGES[name] ? FAILURE_MESSAGES[name] : null;
+    }
+  };
+
+  const rebuild = async () => {
+    const dungeonGen = await getDungeonGen();
+    if (!dungeonGen) return;
+    const events = await indexer.store.query({ names: ["DecryptionRequested", "DecryptionCompleted"] });
+    const completed = new Set(events.flatMap(event => event.name === "DecryptionCompleted" ? [event.requestId] : []));
+    const now = Math.floor(Date.now() / 1000);
+
+    const next = new Map<string, TrackedDecryption>();
+    for (const event of events) {
+      if (event.name !== "DecryptionRequested") continue;
+      const requestedAt = await blockTimestamp(dungeonGen, event.blockNumber);
+      const tracked: TrackedDecryption = { requestId: event.requestId, batchId: event.batchId, requestedAt, status: "pending", message: null };
+      if (completed.has(event.requestId)) {
+        tracked.status = "fulfilled";
+      } else {
+        const reason = failures.get(event.requestId) ?? await probe(dungeonGen, event.requestId);
+        if (reason && reason !== REPLAY_MESSAGE) {
+          failures.set(event.requestId, reason);
+          tracked.status = "failed";
+        } else if (now - requestedAt > timeoutSeconds) {
+          tracked.status = "timedOut";
+        }
+        tracked.message = reason ?? (tracked.status === "timedOut"
+          ? `The oracle has not answered within ${Math.round(timeoutSeconds / 60)} minutes. It may still arrive; otherwise generate the seed again.`
+          : null);
+      }
+      next.set(event.requestId, tracked);
+    }
+    requests = next;
+    notify();
+  };
+
+  const refresh = () => {
+    if (!refreshing) refreshing = rebuild().finally(() => { refreshing = null; });
+    return refreshing;
+  };
+
+  const refreshQuietly = () => { refresh().catch(e => console.error("Decryption tracker refresh failed:", e)); };
+
+  return {
+    refresh,
+    get: (requestId) => requests.get(requestId) ?? null,
+    byBatch: () => {
+      const latest = new Map<number, TrackedDecryption>();
+      for (const tracked of requests.values()) latest.set(tracked.batchId, tracked);
+      return latest;
+    },
+    start: () => {
+      if (timer) return;
+      unsubscribe = indexer.subscribe(refreshQuietly);
+      timer = setInterval(refreshQuietly, pollInterval);
+      refreshQuietly();
+    },
+    stop: () => {
+      unsubscribe?.();
+      unsubscribe = null;
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+}
@@ -0,0 +1,228 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { MockFhevmInstance } from "@fhevm/mock-utils";
+import { config, getDungeonCache } from "./contract";
+import type { PartyAttributes } from "./game/party";
+import type { DecryptionPermit, StoredPermit } from "./permit";
+
+export const HARDHAT_CHAIN_ID = 31337;
+
+// Verifying contracts used by the @fhevm/hardhat-plugin mock coprocessor and KMS
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+export type { PartyAttributes };
+
+// Ciphertext handles of a batch's summed party attributes
+export interface PartyTotalsHandles {
+  strength: string;
+  agility: string;
+  intellect: string;
+}
+
+export interface EncryptedPartyAttributes {
+  strength: string;
+  agility: string;
+  intellect: string;
+  inputProof: string;
+}
+
+interface RelayerMetadata {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: string;
+  InputVerifierAddress: string;
+  KMSVerifierAddress: string;
+}
+
+export const PERMIT_DURATION_DAYS = 30;
+
+const SECONDS_PER_DAY = 86400;
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export const isMockMode = () => config.chainId === HARDHAT_CHAIN_ID;
+
+const createMockInstance = async (): Promise<FhevmInstance> => {
+  const provider = new ethers.JsonRpcProvider(config.network);
+  const metadata: RelayerMetadata = await provider.send("fhevm_relayer_metadata", []);
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS,
+  });
+};
+
+const createRelayerInstance = async (): Promise<FhevmInstance> => {
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, network: window.ethereum ?? config.network });
+};
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (isMockMode() ? createMockInstance() : createRelayerInstance()).catch((e) => {
+      instancePromise = null;
+      throw e;
+    });
+  }
+  return instancePromise;
+}
+
+export async function encryptPartyAttributes(
+  contractAddress: string,
+  userAddress: string,
+  attributes: PartyAttributes
+): Promise<EncryptedPartyAttributes> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(attributes.strength);
+  input.add32(attributes.agility);
+  input.add32(attributes.intelligence);
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    strength: ethers.hexlify(handles[0]),
+    agility: ethers.hexlify(handles[1]),
+    intellect: ethers.hexlify(handles[2]),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+// Where permits were kept before the dungeon cache; read once, wrapped and removed
+const legacyPermitStorageKey = (userAddress: string, contractAddress: string) =>
+  `fhe_permit_${config.chainId}_${userAddress.toLowerCase()}_${contractAddress.toLowerCase()}`;
+
+// Without WebCrypto (pages served over plain http) permits are kept for the page only
+const sessionPermits = new Map<string, DecryptionPermit>();
+
+const canWrap = () => typeof crypto !== "undefined" && crypto.subtle !== undefined;
+
+const isPermitValid = (permit: Omit<DecryptionPermit, "privateKey">, now = Math.floor(Date.now() / 1000)) =>
+  now >= permit.startTimestamp && now < permit.startTimestamp + permit.durationDays * SECONDS_PER_DAY;
+
+const readLegacyPermit = (userAddress: string, contractAddress: string): DecryptionPermit | null => {
+  const raw = localStorage.getItem(legacyPermitStorageKey(userAddress, contractAddress));
+  return raw ? JSON.parse(raw) : null;
+};
+
+// Cache entries written before wrapping still hold the private key in the clear
+const isPlainPermit = (permit: StoredPermit | DecryptionPermit): permit is DecryptionPermit => "privateKey" in permit;
+
+const wrapPermit = async ({ privateKey, ...permit }: DecryptionPermit): Promise<StoredPermit> => {
+  const wrappingKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedPrivateKey = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, wrappingKey, new TextEncoder().encode(privateKey));
+  return { ...permit, wrappingKey, iv, wrappedPrivateKey };
+};
+
+const unwrapPermit = async ({ wrappingKey, iv, wrappedPrivateKey, ...permit }: StoredPermit): Promise<DecryptionPermit> => {
+  const privateKey = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, wrappingKey, wrappedPrivateKey);
+  return { ...permit, privateKey: new TextDecoder().decode(privateKey) };
+};
+
+const storePermit = async (permit: DecryptionPermit) => {
+  if (!canWrap()) {
+    sessionPermits.set(permit.userAddress.toLowerCase(), permit);
+    return;
+  }
+  await (await getDungeonCache()).putPermit(await wrapPermit(permit));
+};
+
+// Permits live in the dungeon cache, which is per contract pair. Plain-text permits, from localStorage
+// or from cache entries written before wrapping, are wrapped on first read and their copies removed.
+const loadPermit = async (userAddress: string, contractAddress: string): Promise<DecryptionPermit | null> => {
+  try {
+    let permit = sessionPermits.get(userAddress.toLowerCase()) ?? null;
+    if (!permit) {
+      const cache = await getDungeonCache();
+      const stored = await cache.getPermit(userAddress);
+      if (stored && isPlainPermit(stored)) {
+        permit = stored;
+        await cache.deletePermit(userAddress);
+        await storePermit(permit);
+      } else if (stored && canWrap()) {
+        permit = isPermitValid(stored) ? await unwrapPermit(stored) : null;
+      }
+    }
+    const legacy = readLegacyPermit(userAddress, contractAddress);
+    if (legacy) {
+      localStorage.removeItem(legacyPermitStorageKey(userAddress, contractAddress));
+      if (!permit) {
+        permit = legacy;
+        await storePermit(permit);
+      }
+    }
+    return permit && permit.contractAddresses.some(address => address.toLowerCase() === contractAddress.toLowerCase()) && isPermitValid(permit) ? permit : null;
+  } catch (e) {
+    console.warn("Ignoring unreadable decryption permit:", e);
+    return null;
+  }
+};
+
+export async function clearDecryptionPermit(userAddress: string, contractAddress: string) {
+  localStorage.removeItem(legacyPermitStorageKey(userAddress, contractAddress));
+  sessionPermits.delete(userAddress.toLowerCase());
+  await (await getDungeonCache()).deletePermit(userAddress);
+}
+
+// Reuses the cached permit while it is valid, otherwise generates a keypair and asks the wallet to sign a new one.
+// The private key never leaves the browser, nor is it stored unwrapped; the relayer only sees the public key and the signature.
+export async function getDecryptionPermit(signer: ethers.Signer, contractAddress: string): Promise<DecryptionPermit> {
+  const userAddress = await signer.getAddress();
+  const cached = await loadPermit(userAddress, contractAddress);
+  if (cached) return cached;
+
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const contractAddresses = [contractAddress];
+  const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, PERMIT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  const permit: DecryptionPermit = {
+    publicKey,
+    privateKey,
+    signature,
+    contractAddresses,
+    userAddress,
+    startTimestamp,
+    durationDays: PERMIT_DURATION_DAYS,
+  };
+  await storePermit(permit);
+  return permit;
+}
+
+// Has the relayer reencrypt the batch totals under the permit's public key and decrypts them locally
+export async function userDecryptPartyTotals(
+  signer: ethers.Signer,
+  contractAddress: string,
+  handles: PartyTotalsHandles
+): Promise<PartyAttributes> {
+  const permit = await getDecryptionPermit(signer, contractAddress);
+  const instance = await getFhevmInstance();
+  const ordered = [handles.strength, handles.agility, handles.intellect];
+  const results = await instance.userDecrypt(
+    ordered.map((handle) => ({ handle, contractAddress })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    permit.contractAddresses,
+    permit.userAddress,
+    permit.startTimestamp,
+    permit.durationDays
+  );
+  const [strength, agility, intelligence] = ordered.map((handle) => {
+    const value = results[handle] ?? results[handle.toLowerCase()];
+    if (value === undefined) throw new Error(`Relayer returned no value for handle ${handle}`);
+    return Number(value);
+  });
+  return { strength, agility, intelligence };
+}
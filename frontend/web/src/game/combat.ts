@@ -0,0 +1,147 @@
+// game/combat.ts
+// Round-by-round combat between the party and a room's monsters. All rolls
+// come from the Rng handed in by the caller, so a round is a pure function of
+// (rng state, party, monsters, command).
+import type { PartyAttributes } from "./party";
+import type { Rng } from "./prng";
+
+export type Spell = "fireball" | "heal";
+
+export type CombatCommand = { type: "attack" } | { type: "cast"; spell: Spell };
+
+export interface MonsterStatBlock {
+  name: string;
+  hp: number;
+  attack: number;
+  armor: number;
+  speed: number;
+}
+
+export interface PartyStats {
+  maxHp: number;
+  maxMana: number;
+  /** Flat melee damage before the roll (STR) */
+  attack: number;
+  /** Size of the extra melee damage roll (STR) */
+  attackRoll: number;
+  /** Damage shaved off every monster hit (AGI) */
+  armor: number;
+  /** Chance a monster blow misses entirely (AGI) */
+  dodge: number;
+  /** Bonus to the initiative roll (AGI) */
+  initiative: number;
+  /** Base fireball damage and healing (INT) */
+  spellPower: number;
+}
+
+export interface CombatantState {
+  hp: number;
+  mana: number;
+  /** Remaining hit points of each monster still standing, front one first */
+  monsters: number[];
+}
+
+export interface CombatRound extends CombatantState {
+  partyFirst: boolean;
+  log: string[];
+}
+
+// Indexed by tier - 1; bosses use the block one tier up with doubled hit points
+export const MONSTER_TIERS: MonsterStatBlock[] = [
+  { name: "Goblin", hp: 8, attack: 2, armor: 0, speed: 8 },
+  { name: "Orc", hp: 14, attack: 4, armor: 1, speed: 6 },
+  { name: "Troll", hp: 22, attack: 6, armor: 2, speed: 4 },
+  { name: "Wraith", hp: 28, attack: 8, armor: 2, speed: 12 },
+  { name: "Drake", hp: 36, attack: 10, armor: 3, speed: 10 },
+  { name: "Demon", hp: 44, attack: 12, armor: 4, speed: 12 }
+];
+
+export const SPELL_COST: Record<Spell, number> = { fireball: 6, heal: 4 };
+
+const INITIATIVE_DIE = 20;
+
+export function partyStats(party: PartyAttributes): PartyStats {
+  return {
+    maxHp: 20 + party.strength + Math.floor(party.agility / 2),
+    maxMana: Math.floor(party.intelligence / 4),
+    attack: 2 + Math.floor(party.strength / 8),
+    attackRoll: 3 + Math.floor(party.strength / 20),
+    armor: Math.floor(party.agility / 25),
+    dodge: Math.min(party.agility / 400, 0.5),
+    initiative: Math.floor(party.agility / 10),
+    spellPower: 2 + Math.floor(party.intelligence / 12)
+  };
+}
+
+export function monsterStats(tier: number, boss: boolean): MonsterStatBlock {
+  const block = MONSTER_TIERS[Math.min(Math.max(tier, 1), MONSTER_TIERS.length) - 1];
+  return boss ? { ...block, name: `${block.name} Lord`, hp: block.hp * 2 } : block;
+}
+
+// Every standing monster swings once; returns the total damage dealt to the party
+export function monsterVolley(rng: Rng, stats: PartyStats, block: MonsterStatBlock, count: number, log: string[]): number {
+  let damage = 0;
+  let misses = 0;
+  for (let i = 0; i < count; i++) {
+    if (rng.chance(stats.dodge)) { misses++; continue; }
+    damage += Math.max(1, block.attack + rng.int(0, block.attack) - stats.armor);
+  }
+  if (damage > 0) log.push(`${block.name} deals ${damage} damage${misses > 0 ? ` (${misses} missed)` : ""}.`);
+  else log.push(`The party dodges every ${block.name} blow.`);
+  return damage;
+}
+
+const partyActs = (rng: Rng, stats: PartyStats, block: MonsterStatBlock, state: CombatantState, command: CombatCommand, log: string[]) => {
+  if (command.type === "attack") {
+    const damage = Math.max(1, stats.attack + rng.int(0, stats.attackRoll) - block.armor);
+    state.monsters[0] -= damage;
+    log.push(`The party strikes the ${block.name} for ${damage}.`);
+  } else if (command.spell === "fireball") {
+    state.mana -= SPELL_COST.fireball;
+    const damage = stats.spellPower + rng.int(0, 3);
+    state.monsters = state.monsters.map(hp => hp - damage);
+    log.push(`Fireball scorches every ${block.name} for ${damage}.`);
+  } else {
+    state.mana -= SPELL_COST.heal;
+    const amount = stats.spellPower * 2 + rng.int(0, 3);
+    state.hp = Math.min(stats.maxHp, state.hp + amount);
+    log.push(`The party heals ${amount} HP.`);
+  }
+  const before = state.monsters.length;
+  state.monsters = state.monsters.filter(hp => hp > 0);
+  const fallen = before - state.monsters.length;
+  if (fallen > 0) log.push(`${fallen} ${block.name}${fallen > 1 ? "s fall" : " falls"}.`);
+};
+
+export function canCast(stats: PartyStats, mana: number, spell: Spell): boolean {
+  return stats.maxMana > 0 && mana >= SPELL_COST[spell];
+}
+
+// One exchange: both sides roll initiative, the faster acts first and the slower only acts if still standing
+export function resolveRound(
+  rng: Rng,
+  party: PartyAttributes,
+  block: MonsterStatBlock,
+  current: CombatantState,
+  command: CombatCommand
+): CombatRound {
+  const stats = partyStats(party);
+  if (command.type === "cast" && !canCast(stats, current.mana, command.spell)) {
+    throw new Error(`Not enough mana to cast ${command.spell}`);
+  }
+  const state: CombatantState = { ...current, monsters: [...current.monsters] };
+  const log: string[] = [];
+
+  const partyRoll = rng.int(1, INITIATIVE_DIE) + stats.initiative;
+  const monsterRoll = rng.int(1, INITIATIVE_DIE) + block.speed;
+  const partyFirst = partyRoll >= monsterRoll;
+
+  if (partyFirst) {
+    partyActs(rng, stats, block, state, command, log);
+    if (state.monsters.length > 0) state.hp -= monsterVolley(rng, stats, block, state.monsters.length, log);
+  } else {
+    state.hp -= monsterVolley(rng, stats, block, state.monsters.length, log);
+    if (state.hp > 0) partyActs(rng, stats, block, state, command, log);
+  }
+  return { ...state, partyFirst, log };
+}
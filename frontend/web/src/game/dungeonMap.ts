@@ -0,0 +1,123 @@
+// game/dungeonMap.ts
+import type { GenerationParams, LootRarity } from "./ruleset";
+
+export type LayoutStrategy = "bsp" | "cellular";
+
+export type TileKind = "wall" | "floor" | "corridor" | "door";
+
+export type RoomType = "entrance" | "empty" | "monster" | "treasure" | "trap" | "puzzle" | "secret" | "stairs" | "boss";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Tile {
+  kind: TileKind;
+  roomId: number | null;
+}
+
+export interface Room {
+  id: number;
+  bounds: Rect;
+  center: Point;
+  type: RoomType;
+  /** Monsters waiting in the room, 0 unless it is a monster or boss room */
+  monsters: number;
+  monsterTier: number;
+  loot: LootRarity | null;
+}
+
+export interface Corridor {
+  id: number;
+  from: number;
+  to: number;
+  path: Point[];
+}
+
+export interface Door {
+  position: Point;
+  roomId: number;
+  corridorId: number;
+  /** Secret doors are still walkable, they are just drawn as wall */
+  hidden: boolean;
+}
+
+export interface DungeonMap {
+  width: number;
+  height: number;
+  /** 0 for the top floor of a multi-floor dungeon */
+  floor: number;
+  strategy: LayoutStrategy;
+  tiles: Tile[][]; // tiles[y][x]
+  rooms: Room[];
+  corridors: Corridor[];
+  doors: Door[];
+  entrance: number;
+  exit: number;
+  params: GenerationParams;
+}
+
+export const isWalkable = (tile: Tile) => tile.kind !== "wall";
+
+const NEIGHBOURS: Point[] = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
+
+// Breadth-first walk over walkable tiles, returning the step distance to every reached tile
+export function distancesFrom(map: Pick<DungeonMap, "width" | "height" | "tiles">, start: Point): number[][] {
+  const distances = map.tiles.map(row => row.map(() => -1));
+  if (!isWalkable(map.tiles[start.y][start.x])) return distances;
+
+  distances[start.y][start.x] = 0;
+  const queue: Point[] = [start];
+  for (let head = 0; head < queue.length; head++) {
+    const { x, y } = queue[head];
+    for (const step of NEIGHBOURS) {
+      const nx = x + step.x;
+      const ny = y + step.y;
+      if (nx < 0 || ny < 0 || nx >= map.width || ny >= map.height) continue;
+      if (distances[ny][nx] !== -1 || !isWalkable(map.tiles[ny][nx])) continue;
+      distances[ny][nx] = distances[y][x] + 1;
+      queue.push({ x: nx, y: ny });
+    }
+  }
+  return distances;
+}
+
+export function findUnreachableRooms(map: DungeonMap): Room[] {
+  const entrance = map.rooms[map.entrance];
+  const distances = distancesFrom(map, entrance.center);
+  return map.rooms.filter(room => distances[room.center.y][room.center.x] === -1);
+}
+
+// Rooms a corridor passes through, in walking order
+export function corridorRooms(map: Pick<DungeonMap, "tiles">, corridor: Corridor): number[] {
+  const rooms: number[] = [];
+  corridor.path.forEach(point => {
+    const roomId = map.tiles[point.y][point.x].roomId;
+    if (roomId !== null && rooms[rooms.length - 1] !== roomId) rooms.push(roomId);
+  });
+  return rooms;
+}
+
+// Rooms reachable from each room without crossing another room on the way
+export function roomLinks(map: Pick<DungeonMap, "tiles" | "corridors">, roomCount: number): number[][] {
+  const links = Array.from({ length: roomCount }, () => new Set<number>());
+  map.corridors.forEach(corridor => {
+    const rooms = corridorRooms(map, corridor);
+    for (let i = 1; i < rooms.length; i++) {
+      links[rooms[i]].add(rooms[i - 1]);
+      links[rooms[i - 1]].add(rooms[i]);
+    }
+  });
+  return links.map(set => [...set].sort((a, b) => a - b));
+}
+
+export const countRooms = (map: DungeonMap, ...types: RoomType[]) =>
+  map.rooms.filter(room => types.includes(room.type)).length;
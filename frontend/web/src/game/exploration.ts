@@ -0,0 +1,389 @@
+// game/exploration.ts
+// Turn-based run through a generated multi-floor dungeon. Every action is
+// resolved with a PRNG derived from the dungeon seed and the turn number, so
+// replaying the recorded action list against the same floors always lands on
+// the same outcome.
+import type { PartyAttributes } from "./party";
+import { createRng, Rng } from "./prng";
+import { DungeonMap, corridorRooms, roomLinks } from "./dungeonMap";
+import { CombatCommand, Spell, canCast, monsterStats, monsterVolley, partyStats, resolveRound } from "./combat";
+
+// Part of every generator registration: bump it whenever exploration or combat would resolve a
+// recorded action log differently, and keep the old rules for the generators registered with them
+export const EXPLORATION_RULES_VERSION = 1;
+
+export type ExplorationOutcome = "victory" | "retreat" | "wipe";
+
+export type ExplorationAction =
+  | { type: "move"; roomId: number }
+  | { type: "attack" }
+  | { type: "cast"; spell: Spell }
+  | { type: "flee" }
+  | { type: "solve" }
+  | { type: "search" }
+  | { type: "descend" }
+  | { type: "ascend" }
+  | { type: "retreat" };
+
+export interface ExplorationSetup {
+  /** Floor 0 is the surface level, the last floor holds the boss */
+  floors: DungeonMap[];
+  seed: number;
+  party: PartyAttributes;
+}
+
+// A monster or boss room the party is standing in and has not cleared yet
+export interface Encounter {
+  roomId: number;
+  /** Hit points of each monster still standing */
+  monsters: number[];
+}
+
+// Everything the party has done on one floor, kept while it is on other floors
+export interface FloorProgress {
+  visited: boolean[];
+  cleared: boolean[];
+  /** False only for secret rooms nobody has searched out yet */
+  discovered: boolean[];
+  /** Monsters still alive per room; fleeing does not bring the fallen back */
+  monstersLeft: number[];
+  monstersDefeated: number;
+  treasuresFound: number;
+}
+
+export interface ExplorationState {
+  turn: number;
+  floor: number;
+  position: number;
+  /** Room the party came from, where fleeing leads back to */
+  previous: number | null;
+  hp: number;
+  maxHp: number;
+  mana: number;
+  maxMana: number;
+  floors: FloorProgress[];
+  encounter: Encounter | null;
+  monstersDefeated: number;
+  treasuresFound: number;
+  outcome: ExplorationOutcome | null;
+  log: string[];
+  actions: ExplorationAction[];
+}
+
+const TRAP_DAMAGE: [number, number] = [3, 8];
+const PUZZLE_FAILURE_DAMAGE: [number, number] = [1, 4];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const trapAvoidChance = (party: PartyAttributes) => clamp(0.2 + party.agility / 300, 0, 0.9);
+const searchChance = (party: PartyAttributes) => clamp(0.25 + party.agility / 200, 0, 0.95);
+const solveChance = (party: PartyAttributes) => clamp(0.3 + party.intelligence / 300, 0, 0.95);
+
+const turnRng = (seed: number, turn: number): Rng => createRng((seed ^ Math.imul(turn + 1, 0x9e3779b9)) >>> 0);
+
+const currentMap = (setup: ExplorationSetup, state: ExplorationState) => setup.floors[state.floor];
+
+const cloneProgress = (progress: FloorProgress): FloorProgress => ({
+  ...progress,
+  visited: [...progress.visited],
+  cleared: [...progress.cleared],
+  discovered: [...progress.discovered],
+  monstersLeft: [...progress.monstersLeft]
+});
+
+export function startExploration(setup: ExplorationSetup): ExplorationState {
+  const { floors, party } = setup;
+  const { maxHp, maxMana } = partyStats(party);
+  const state: ExplorationState = {
+    turn: 0,
+    floor: 0,
+    position: floors[0].entrance,
+    previous: null,
+    hp: maxHp,
+    maxHp,
+    mana: maxMana,
+    maxMana,
+    floors: floors.map((map, index) => ({
+      visited: map.rooms.map(room => index === 0 && room.id === map.entrance),
+      cleared: map.rooms.map(room => room.id === map.entrance),
+      discovered: map.rooms.map(room => room.type !== "secret"),
+      monstersLeft: map.rooms.map(room => room.monsters),
+      monstersDefeated: 0,
+      treasuresFound: 0
+    })),
+    encounter: null,
+    monstersDefeated: 0,
+    treasuresFound: 0,
+    outcome: null,
+    log: [`The party enters the dungeon with ${maxHp} HP.`],
+    actions: []
+  };
+  return state;
+}
+
+export function availableMoves(setup: ExplorationSetup, state: ExplorationState): number[] {
+  if (state.outcome || state.encounter) return [];
+  const map = currentMap(setup, state);
+  const { discovered } = state.floors[state.floor];
+  return roomLinks(map, map.rooms.length)[state.position].filter(roomId => discovered[roomId]);
+}
+
+const isIdle = (state: ExplorationState) => !state.outcome && !state.encounter;
+
+export function canRetreat(setup: ExplorationSetup, state: ExplorationState): boolean {
+  return isIdle(state) && state.floor === 0 && state.position === setup.floors[0].entrance;
+}
+
+export function canDescend(setup: ExplorationSetup, state: ExplorationState): boolean {
+  return isIdle(state) && currentMap(setup, state).rooms[state.position].type === "stairs";
+}
+
+export function canAscend(setup: ExplorationSetup, state: ExplorationState): boolean {
+  return isIdle(state) && state.floor > 0 && state.position === currentMap(setup, state).entrance;
+}
+
+export function canSolve(setup: ExplorationSetup, state: ExplorationState): boolean {
+  return !state.outcome
+    && currentMap(setup, state).rooms[state.position].type === "puzzle"
+    && !state.floors[state.floor].cleared[state.position];
+}
+
+export function canCastSpell(setup: ExplorationSetup, state: ExplorationState, spell: Spell): boolean {
+  return !state.outcome && state.encounter !== null && canCast(partyStats(setup.party), state.mana, spell);
+}
+
+const findLoot = (next: ExplorationState, progress: FloorProgress, loot: string) => {
+  progress.treasuresFound++;
+  next.treasuresFound++;
+  next.log.push(`Found ${loot} loot.`);
+};
+
+const enterRoom = (rng: Rng, setup: ExplorationSetup, next: ExplorationState, roomId: number) => {
+  const room = currentMap(setup, next).rooms[roomId];
+  const progress = next.floors[next.floor];
+  next.previous = next.position;
+  next.position = roomId;
+  progress.visited[roomId] = true;
+  next.log.push(`Entered room #${roomId} (${room.type}).`);
+  if (progress.cleared[roomId]) return;
+
+  switch (room.type) {
+    case "monster":
+    case "boss": {
+      const block = monsterStats(room.monsterTier, room.type === "boss");
+      next.encounter = { roomId, monsters: Array.from({ length: progress.monstersLeft[roomId] }, () => block.hp) };
+      next.log.push(`${progress.monstersLeft[roomId]} × ${block.name} (tier ${room.monsterTier}) block the way.`);
+      return;
+    }
+    case "trap":
+      if (rng.chance(trapAvoidChance(setup.party))) next.log.push("The party spots the trap and slips past it.");
+      else {
+        const damage = rng.int(...TRAP_DAMAGE);
+        next.hp -= damage;
+        next.log.push(`A trap springs for ${damage} damage.`);
+      }
+      break;
+    case "treasure":
+    case "secret":
+      findLoot(next, progress, room.loot!);
+      break;
+    case "puzzle":
+      next.log.push("A puzzle seals the treasure in this room.");
+      return;
+    case "stairs":
+      next.log.push(`Stairs lead down to floor ${next.floor + 2}.`);
+      break;
+  }
+  progress.cleared[roomId] = true;
+};
+
+const fight = (rng: Rng, setup: ExplorationSetup, next: ExplorationState, command: CombatCommand) => {
+  const encounter = next.encounter!;
+  const room = currentMap(setup, next).rooms[encounter.roomId];
+  const progress = next.floors[next.floor];
+  const block = monsterStats(room.monsterTier, room.type === "boss");
+  const round = resolveRound(rng, setup.party, block, { hp: next.hp, mana: next.mana, monsters: encounter.monsters }, command);
+  next.log.push(...round.log);
+  next.hp = round.hp;
+  next.mana = round.mana;
+  const fallen = encounter.monsters.length - round.monsters.length;
+  progress.monstersDefeated += fallen;
+  next.monstersDefeated += fallen;
+  progress.monstersLeft[room.id] = round.monsters.length;
+
+  if (round.monsters.length > 0) {
+    next.encounter = { ...encounter, monsters: round.monsters };
+    return;
+  }
+  next.encounter = null;
+  if (next.hp <= 0) return;
+  progress.cleared[room.id] = true;
+  if (room.loot) findLoot(next, progress, room.loot);
+  if (room.type === "boss") next.outcome = "victory";
+};
+
+export function applyAction(setup: ExplorationSetup, state: ExplorationState, action: ExplorationAction): ExplorationState {
+  if (state.outcome) throw new Error(`Run already ended in ${state.outcome}`);
+  const rng = turnRng(setup.seed, state.turn);
+  const next: ExplorationState = {
+    ...state,
+    turn: state.turn + 1,
+    floors: state.floors.map(cloneProgress),
+    log: [...state.log],
+    actions: [...state.actions, action]
+  };
+
+  const map = currentMap(setup, state);
+  const progress = next.floors[state.floor];
+
+  switch (action.type) {
+    case "move":
+      if (!availableMoves(setup, state).includes(action.roomId)) throw new Error(`Cannot move to room #${action.roomId}`);
+      enterRoom(rng, setup, next, action.roomId);
+      break;
+    case "attack":
+      if (!state.encounter) throw new Error("Nothing to fight here");
+      fight(rng, setup, next, action);
+      break;
+    case "cast":
+      if (!canCastSpell(setup, state, action.spell)) throw new Error(`Cannot cast ${action.spell} now`);
+      fight(rng, setup, next, action);
+      break;
+    case "flee": {
+      if (!state.encounter || state.previous === null) throw new Error("Nowhere to flee to");
+      const room = map.rooms[state.encounter.roomId];
+      const block = monsterStats(room.monsterTier, room.type === "boss");
+      next.log.push("The party flees.");
+      next.hp -= monsterVolley(rng, partyStats(setup.party), block, state.encounter.monsters.length, next.log);
+      next.encounter = null;
+      next.position = state.previous;
+      next.previous = state.position;
+      break;
+    }
+    case "solve":
+      if (!canSolve(setup, state)) throw new Error("No puzzle to solve here");
+      if (rng.chance(solveChance(setup.party))) {
+        progress.cleared[state.position] = true;
+        next.log.push("Puzzle solved.");
+        findLoot(next, progress, map.rooms[state.position].loot!);
+      } else {
+        const damage = rng.int(...PUZZLE_FAILURE_DAMAGE);
+        next.hp -= damage;
+        next.log.push(`The puzzle backfires for ${damage} damage.`);
+      }
+      break;
+    case "search": {
+      if (state.encounter) throw new Error("Cannot search during a fight");
+      const hidden = roomLinks(map, map.rooms.length)[state.position].filter(roomId => !progress.discovered[roomId]);
+      const found = hidden.filter(() => rng.chance(searchChance(setup.party)));
+      found.forEach(roomId => { progress.discovered[roomId] = true; });
+      next.log.push(found.length > 0 ? `Found a secret door to room #${found.join(", #")}.` : "The search turns up nothing.");
+      break;
+    }
+    case "descend": {
+      if (!canDescend(setup, state)) throw new Error("There are no stairs down here");
+      const below = setup.floors[state.floor + 1];
+      next.floor = state.floor + 1;
+      next.position = below.entrance;
+      next.previous = null;
+      next.floors[next.floor].visited[below.entrance] = true;
+      next.log.push(`The party descends to floor ${next.floor + 1}.`);
+      break;
+    }
+    case "ascend":
+      if (!canAscend(setup, state)) throw new Error("The stairs up are at this floor's entrance");
+      next.floor = state.floor - 1;
+      next.position = setup.floors[next.floor].exit;
+      next.previous = null;
+      next.log.push(`The party climbs back to floor ${next.floor + 1}.`);
+      break;
+    case "retreat":
+      if (!canRetreat(setup, state)) throw new Error("The party can only retreat from the first floor's entrance");
+      next.outcome = "retreat";
+      next.log.push("The party retreats to the surface.");
+      break;
+  }
+
+  if (next.hp <= 0) {
+    next.hp = 0;
+    next.encounter = null;
+    next.outcome = "wipe";
+    next.log.push("The party has been wiped out.");
+  }
+  return next;
+}
+
+export function replayExploration(setup: ExplorationSetup, actions: ExplorationAction[]): ExplorationState {
+  return actions.reduce((state, action) => applyAction(setup, state, action), startExploration(setup));
+}
+
+// Compact action log stored with the dungeon record, e.g. "m3 a a f x m1 d m4 r"
+const ACTION_CODES: Record<Exclude<ExplorationAction["type"], "move" | "cast">, string> = {
+  attack: "a",
+  flee: "x",
+  solve: "s",
+  search: "q",
+  descend: "d",
+  ascend: "u",
+  retreat: "r"
+};
+const SPELL_CODES: Record<Spell, string> = { fireball: "f", heal: "h" };
+
+export function encodeActions(actions: ExplorationAction[]): string {
+  return actions.map(action => {
+    if (action.type === "move") return `m${action.roomId}`;
+    if (action.type === "cast") return SPELL_CODES[action.spell];
+    return ACTION_CODES[action.type];
+  }).join(" ");
+}
+
+export function decodeActions(encoded: string): ExplorationAction[] {
+  if (encoded.trim() === "") return [];
+  return encoded.trim().split(/\s+/).map(code => {
+    if (/^m\d+$/.test(code)) return { type: "move", roomId: Number(code.slice(1)) };
+    const spell = (Object.keys(SPELL_CODES) as Spell[]).find(key => SPELL_CODES[key] === code);
+    if (spell) return { type: "cast", spell };
+    const type = (Object.keys(ACTION_CODES) as (keyof typeof ACTION_CODES)[]).find(key => ACTION_CODES[key] === code);
+    if (!type) throw new Error(`Unknown action code "${code}"`);
+    return { type };
+  });
+}
+
+// Rooms the party has seen on a floor: everywhere it has been plus discovered rooms next door
+export function visibleRooms(setup: ExplorationSetup, state: ExplorationState, floor = state.floor): boolean[] {
+  const map = setup.floors[floor];
+  const { visited, discovered } = state.floors[floor];
+  const links = roomLinks(map, map.rooms.length);
+  const visible = [...visited];
+  visited.forEach((seen, roomId) => {
+    if (seen) links[roomId].forEach(neighbour => { if (discovered[neighbour]) visible[neighbour] = true; });
+  });
+  return visible;
+}
+
+// Fog of war per tile: visible rooms, corridors touching a visited room, and the walls around them
+export function visibleTiles(setup: ExplorationSetup, state: ExplorationState, floor = state.floor): boolean[][] {
+  const map = setup.floors[floor];
+  const { visited, discovered } = state.floors[floor];
+  const rooms = visibleRooms(setup, state, floor);
+  const visible = map.tiles.map(row => row.map(tile => tile.roomId !== null && rooms[tile.roomId]));
+  map.corridors.forEach(corridor => {
+    if (!corridorRooms(map, corridor).some(roomId => visited[roomId])) return;
+    corridor.path.forEach(point => {
+      if (map.tiles[point.y][point.x].roomId === null) visible[point.y][point.x] = true;
+    });
+  });
+  map.doors.forEach(door => {
+    if (door.hidden && !discovered[door.roomId]) visible[door.position.y][door.position.x] = false;
+  });
+
+  return visible.map((row, y) => row.map((seen, x) => {
+    if (seen || map.tiles[y][x].kind !== "wall") return seen;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (visible[y + dy]?.[x + dx] && map.tiles[y + dy][x + dx].kind !== "wall") return true;
+      }
+    }
+    return false;
+  }));
+}
@@ -0,0 +1,19 @@
+// game/floors.ts
+import type { PartyAttributes } from "./party";
+import { DungeonMap } from "./dungeonMap";
+import { generateDungeon } from "./generator";
+import { createRng, deriveSeed } from "./prng";
+import { MAX_FLOORS, MIN_FLOORS, deriveGenerationParams, paramsForFloor } from "./ruleset";
+
+export const floorCount = (dungeonSeed: number) => createRng(dungeonSeed).int(MIN_FLOORS, MAX_FLOORS);
+
+export const floorSeed = (dungeonSeed: number, floor: number) => deriveSeed(dungeonSeed, floor);
+
+// Every floor of a dungeon, top to bottom, from the batch seed and the decrypted party totals
+export function generateFloors(dungeonSeed: number, totals: PartyAttributes): DungeonMap[] {
+  const count = floorCount(dungeonSeed);
+  const base = deriveGenerationParams(totals);
+  return Array.from({ length: count }, (_, floor) =>
+    generateDungeon(floorSeed(dungeonSeed, floor), paramsForFloor(base, floor), floor, count)
+  );
+}
@@ -0,0 +1,359 @@
+// game/generator.ts
+import { createRng, Rng } from "./prng";
+import {
+  Corridor,
+  Door,
+  DungeonMap,
+  LayoutStrategy,
+  Point,
+  Room,
+  RoomType,
+  Tile,
+  distancesFrom,
+  findUnreachableRooms,
+  roomLinks
+} from "./dungeonMap";
+import { GenerationParams, LOOT_RARITIES, LootRarity } from "./ruleset";
+
+const MAP_WIDTH = 48;
+const MAP_HEIGHT = 32;
+
+// BSP: smallest leaf that may still be split, and smallest room carved into a leaf
+const MIN_LEAF_SIZE = 8;
+const MIN_ROOM_SIZE = 4;
+
+// Cellular automata: initial wall density, smoothing passes, and caves smaller than this are filled in
+const CAVE_FILL_CHANCE = 0.52;
+const CAVE_SMOOTHING_PASSES = 5;
+const MIN_CAVE_SIZE = 12;
+const MIN_CAVE_COUNT = 3;
+
+// Treasure weight is fixed; monster and trap weights come from the ruleset and empty fills the rest
+const TREASURE_WEIGHT = 20;
+const MIN_EMPTY_WEIGHT = 5;
+
+// At most one in three ordinary rooms becomes a puzzle so there is still something to fight
+const MAX_PUZZLE_SHARE = 1 / 3;
+
+interface Region {
+  cells: Point[];
+  center: Point;
+}
+
+interface Leaf {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  children?: [Leaf, Leaf];
+}
+
+const createTiles = (kind: Tile["kind"]): Tile[][] =>
+  Array.from({ length: MAP_HEIGHT }, () => Array.from({ length: MAP_WIDTH }, () => ({ kind, roomId: null })));
+
+const regionCenter = (cells: Point[]): Point => {
+  const cx = cells.reduce((sum, c) => sum + c.x, 0) / cells.length;
+  const cy = cells.reduce((sum, c) => sum + c.y, 0) / cells.length;
+  let best = cells[0];
+  for (const cell of cells) {
+    if ((cell.x - cx) ** 2 + (cell.y - cy) ** 2 < (best.x - cx) ** 2 + (best.y - cy) ** 2) best = cell;
+  }
+  return best;
+};
+
+const splitLeaf = (leaf: Leaf, rng: Rng) => {
+  const canSplitWide = leaf.width >= MIN_LEAF_SIZE * 2;
+  const canSplitTall = leaf.height >= MIN_LEAF_SIZE * 2;
+  if (!canSplitWide && !canSplitTall) return;
+
+  // Leaves that are already small enough sometimes stay whole so room counts vary
+  if (leaf.width < MIN_LEAF_SIZE * 3 && leaf.height < MIN_LEAF_SIZE * 3 && rng.chance(0.25)) return;
+
+  let horizontal: boolean;
+  if (!canSplitWide) horizontal = true;
+  else if (!canSplitTall) horizontal = false;
+  else if (leaf.height > leaf.width * 1.25) horizontal = true;
+  else if (leaf.width > leaf.height * 1.25) horizontal = false;
+  else horizontal = rng.chance(0.5);
+
+  const at = rng.int(MIN_LEAF_SIZE, (horizontal ? leaf.height : leaf.width) - MIN_LEAF_SIZE);
+  leaf.children = horizontal
+    ? [
+        { x: leaf.x, y: leaf.y, width: leaf.width, height: at },
+        { x: leaf.x, y: leaf.y + at, width: leaf.width, height: leaf.height - at }
+      ]
+    : [
+        { x: leaf.x, y: leaf.y, width: at, height: leaf.height },
+        { x: leaf.x + at, y: leaf.y, width: leaf.width - at, height: leaf.height }
+      ];
+  leaf.children.forEach(child => splitLeaf(child, rng));
+};
+
+// Carves one rectangular room per BSP leaf and pairs up sibling subtrees for corridors
+const layoutBsp = (rng: Rng) => {
+  const tiles = createTiles("wall");
+  const regions: Region[] = [];
+  const links: [number, number][] = [];
+
+  const root: Leaf = { x: 0, y: 0, width: MAP_WIDTH, height: MAP_HEIGHT };
+  splitLeaf(root, rng);
+
+  const carve = (leaf: Leaf): number => {
+    if (leaf.children) {
+      const a = carve(leaf.children[0]);
+      const b = carve(leaf.children[1]);
+      links.push([a, b]);
+      return rng.chance(0.5) ? a : b;
+    }
+    const width = rng.int(MIN_ROOM_SIZE, leaf.width - 2);
+    const height = rng.int(MIN_ROOM_SIZE, leaf.height - 2);
+    const x = leaf.x + rng.int(1, leaf.width - width - 1);
+    const y = leaf.y + rng.int(1, leaf.height - height - 1);
+    const cells: Point[] = [];
+    for (let ty = y; ty < y + height; ty++) {
+      for (let tx = x; tx < x + width; tx++) {
+        tiles[ty][tx] = { kind: "floor", roomId: regions.length };
+        cells.push({ x: tx, y: ty });
+      }
+    }
+    regions.push({ cells, center: { x: x + Math.floor(width / 2), y: y + Math.floor(height / 2) } });
+    return regions.length - 1;
+  };
+  carve(root);
+
+  return { tiles, regions, links };
+};
+
+// Grows caves with a cellular automaton and links them with a minimum spanning tree
+const layoutCellular = (rng: Rng) => {
+  const isBorder = (x: number, y: number) => x === 0 || y === 0 || x === MAP_WIDTH - 1 || y === MAP_HEIGHT - 1;
+  let walls = Array.from({ length: MAP_HEIGHT }, (_, y) =>
+    Array.from({ length: MAP_WIDTH }, (_, x) => isBorder(x, y) || rng.chance(CAVE_FILL_CHANCE))
+  );
+
+  for (let pass = 0; pass < CAVE_SMOOTHING_PASSES; pass++) {
+    walls = walls.map((row, y) => row.map((wall, x) => {
+      if (isBorder(x, y)) return true;
+      let neighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx !== 0 || dy !== 0) && walls[y + dy][x + dx]) neighbours++;
+        }
+      }
+      return neighbours > 4 ? true : neighbours < 4 ? false : wall;
+    }));
+  }
+
+  const tiles = createTiles("wall");
+  const regions: Region[] = [];
+  const visited = walls.map(row => row.map(() => false));
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      if (walls[y][x] || visited[y][x]) continue;
+      const cells: Point[] = [];
+      const stack: Point[] = [{ x, y }];
+      visited[y][x] = true;
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        cells.push(cell);
+        for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+          const nx = cell.x + dx;
+          const ny = cell.y + dy;
+          if (!walls[ny][nx] && !visited[ny][nx]) {
+            visited[ny][nx] = true;
+            stack.push({ x: nx, y: ny });
+          }
+        }
+      }
+      if (cells.length < MIN_CAVE_SIZE) continue;
+      cells.forEach(cell => { tiles[cell.y][cell.x] = { kind: "floor", roomId: regions.length }; });
+      regions.push({ cells, center: regionCenter(cells) });
+    }
+  }
+
+  const links: [number, number][] = [];
+  const connected = new Set<number>([0]);
+  while (regions.length > 0 && connected.size < regions.length) {
+    let best: [number, number] | null = null;
+    let bestDistance = Infinity;
+    for (const a of connected) {
+      for (let b = 0; b < regions.length; b++) {
+        if (connected.has(b)) continue;
+        const distance = Math.abs(regions[a].center.x - regions[b].center.x) + Math.abs(regions[a].center.y - regions[b].center.y);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = [a, b];
+        }
+      }
+    }
+    links.push(best!);
+    connected.add(best![1]);
+  }
+
+  return { tiles, regions, links };
+};
+
+// L-shaped path between two points, bending horizontally or vertically first
+const corridorPath = (from: Point, to: Point, horizontalFirst: boolean): Point[] => {
+  const path: Point[] = [{ ...from }];
+  const current = { ...from };
+  const walk = (axis: "x" | "y", target: number) => {
+    while (current[axis] !== target) {
+      current[axis] += current[axis] < target ? 1 : -1;
+      path.push({ ...current });
+    }
+  };
+  if (horizontalFirst) { walk("x", to.x); walk("y", to.y); }
+  else { walk("y", to.y); walk("x", to.x); }
+  return path;
+};
+
+const roomTypeWeights = (params: GenerationParams): [RoomType, number][] => {
+  const monster = Math.round(params.monsterDensity * 100);
+  const trap = Math.round(params.trapFrequency * 100);
+  return [
+    ["empty", Math.max(100 - monster - trap - TREASURE_WEIGHT, MIN_EMPTY_WEIGHT)],
+    ["monster", monster],
+    ["treasure", TREASURE_WEIGHT],
+    ["trap", trap]
+  ];
+};
+
+const pickRoomType = (rng: Rng, weights: [RoomType, number][]): RoomType => {
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = rng.int(1, total);
+  for (const [type, weight] of weights) {
+    roll -= weight;
+    if (roll <= 0) return type;
+  }
+  return "empty";
+};
+
+// Uniform up to the ruleset's best rarity; secret, puzzle and boss rooms keep the better of two rolls
+const rollLoot = (rng: Rng, params: GenerationParams, rolls: number): LootRarity => {
+  const best = LOOT_RARITIES.indexOf(params.lootRarity);
+  let index = 0;
+  for (let i = 0; i < rolls; i++) index = Math.max(index, rng.int(0, best));
+  return LOOT_RARITIES[index];
+};
+
+// Decides what every room holds: entrance and exit are fixed, secret rooms take dead ends
+// (so hiding them never cuts off the rest of the map), puzzles come next and the rest are
+// rolled from the ruleset weights
+const assignRoomTypes = (
+  rng: Rng,
+  params: GenerationParams,
+  roomCount: number,
+  entrance: number,
+  exit: number,
+  exitType: RoomType,
+  links: number[][]
+): RoomType[] => {
+  const types: RoomType[] = Array.from({ length: roomCount }, () => "empty");
+  types[entrance] = "entrance";
+  types[exit] = exitType;
+
+  const ordinary = rng.shuffle(
+    Array.from({ length: roomCount }, (_, id) => id).filter(id => id !== entrance && id !== exit)
+  );
+
+  const deadEnds = ordinary.filter(id => links[id].length === 1);
+  deadEnds.slice(0, params.secretRooms).forEach(id => { types[id] = "secret"; });
+
+  const remaining = ordinary.filter(id => types[id] !== "secret");
+  const puzzles = Math.min(params.puzzleRooms, Math.floor(remaining.length * MAX_PUZZLE_SHARE));
+  remaining.slice(0, puzzles).forEach(id => { types[id] = "puzzle"; });
+
+  const weights = roomTypeWeights(params);
+  remaining.slice(puzzles).sort((a, b) => a - b).forEach(id => { types[id] = pickRoomType(rng, weights); });
+  return types;
+};
+
+// Builds one floor. Every floor but the last has stairs down where the boss would be
+export function generateDungeon(seed: number, params: GenerationParams, floor = 0, floorCount = 1): DungeonMap {
+  const rng = createRng(seed);
+  let strategy: LayoutStrategy = rng.chance(0.5) ? "bsp" : "cellular";
+  let layout = strategy === "bsp" ? layoutBsp(rng) : layoutCellular(rng);
+  if (layout.regions.length < MIN_CAVE_COUNT) {
+    // Too few caves to explore, fall back to BSP on the same stream
+    strategy = "bsp";
+    layout = layoutBsp(rng);
+  }
+  const { tiles, regions, links } = layout;
+
+  const corridors: Corridor[] = [];
+  const doors = new Map<string, Door>();
+  links.forEach(([from, to]) => {
+    const path = corridorPath(regions[from].center, regions[to].center, rng.chance(0.5));
+    const id = corridors.length;
+    path.forEach((point, i) => {
+      const tile = tiles[point.y][point.x];
+      if (tile.kind === "wall") tile.kind = "corridor";
+      if (i === 0) return;
+      // A door sits on the first corridor tile outside a room, on either end of the crossing
+      const prev = path[i - 1];
+      const prevRoom = tiles[prev.y][prev.x].roomId;
+      if (prevRoom !== null && tile.roomId === null) {
+        doors.set(`${point.x},${point.y}`, { position: point, roomId: prevRoom, corridorId: id, hidden: false });
+      } else if (prevRoom === null && tile.roomId !== null) {
+        doors.set(`${prev.x},${prev.y}`, { position: prev, roomId: tile.roomId, corridorId: id, hidden: false });
+      }
+    });
+    corridors.push({ id, from, to, path });
+  });
+  doors.forEach(door => { tiles[door.position.y][door.position.x].kind = "door"; });
+
+  // Entrance is the room nearest the top-left corner, exit the one furthest from it on foot
+  let entrance = 0;
+  regions.forEach((region, i) => {
+    const best = regions[entrance].center;
+    if (region.center.x + region.center.y < best.x + best.y) entrance = i;
+  });
+  const distances = distancesFrom({ width: MAP_WIDTH, height: MAP_HEIGHT, tiles }, regions[entrance].center);
+  let exit = entrance;
+  regions.forEach((region, i) => {
+    if (distances[region.center.y][region.center.x] > distances[regions[exit].center.y][regions[exit].center.x]) exit = i;
+  });
+
+  const doorList = [...doors.values()];
+  const roomGraph = roomLinks({ tiles, corridors }, regions.length);
+  const types = assignRoomTypes(rng, params, regions.length, entrance, exit, floor === floorCount - 1 ? "boss" : "stairs", roomGraph);
+  doorList.forEach(door => { door.hidden = types[door.roomId] === "secret"; });
+
+  const rooms: Room[] = regions.map((region, id) => {
+    const xs = region.cells.map(c => c.x);
+    const ys = region.cells.map(c => c.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    const type = types[id];
+    return {
+      id,
+      bounds: { x, y, width: Math.max(...xs) - x + 1, height: Math.max(...ys) - y + 1 },
+      center: region.center,
+      type,
+      monsters: type === "boss" ? 1 : type === "monster" ? rng.int(1, 2 + Math.floor(params.monsterTier / 2)) : 0,
+      monsterTier: type === "boss" ? params.monsterTier + 1 : type === "monster" ? params.monsterTier : 0,
+      loot: type === "treasure" ? rollLoot(rng, params, 1) : type === "secret" || type === "puzzle" || type === "boss" ? rollLoot(rng, params, 2) : null
+    };
+  });
+
+  const map: DungeonMap = {
+    width: MAP_WIDTH,
+    height: MAP_HEIGHT,
+    floor,
+    strategy,
+    tiles,
+    rooms,
+    corridors,
+    doors: doorList,
+    entrance,
+    exit,
+    params
+  };
+
+  const unreachable = findUnreachableRooms(map);
+  if (unreachable.length > 0) {
+    throw new Error(`Seed ${seed} produced unreachable rooms: ${unreachable.map(room => room.id).join(", ")}`);
+  }
+  return map;
+}
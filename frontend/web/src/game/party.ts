@@ -0,0 +1,59 @@
+// game/party.ts
+
+// Plain attribute triple for one character or, summed, for a whole party
+export interface PartyAttributes {
+  strength: number;
+  agility: number;
+  intelligence: number;
+}
+
+export type CharacterClass = "warrior" | "rogue" | "mage" | "cleric";
+
+export interface PartyMember extends PartyAttributes {
+  name: string;
+  characterClass: CharacterClass;
+}
+
+export const MIN_PARTY_SIZE = 1;
+export const MAX_PARTY_SIZE = 6;
+export const MIN_ATTRIBUTE = 1;
+export const MAX_ATTRIBUTE = 99;
+
+// Starting spreads only; every attribute can still be edited before submission
+export const CHARACTER_CLASSES: Record<CharacterClass, { label: string; icon: string; base: PartyAttributes }> = {
+  warrior: { label: "Warrior", icon: "🛡️", base: { strength: 70, agility: 40, intelligence: 20 } },
+  rogue: { label: "Rogue", icon: "🗡️", base: { strength: 35, agility: 75, intelligence: 30 } },
+  mage: { label: "Mage", icon: "🔮", base: { strength: 15, agility: 35, intelligence: 80 } },
+  cleric: { label: "Cleric", icon: "✨", base: { strength: 40, agility: 30, intelligence: 60 } }
+};
+
+export const createMember = (characterClass: CharacterClass, index: number): PartyMember => ({
+  name: `${CHARACTER_CLASSES[characterClass].label} ${index + 1}`,
+  characterClass,
+  ...CHARACTER_CLASSES[characterClass].base
+});
+
+export const partyTotals = (members: PartyMember[]): PartyAttributes => members.reduce(
+  (totals, member) => ({
+    strength: totals.strength + member.strength,
+    agility: totals.agility + member.agility,
+    intelligence: totals.intelligence + member.intelligence
+  }),
+  { strength: 0, agility: 0, intelligence: 0 }
+);
+
+const isValidAttribute = (value: number) => Number.isInteger(value) && value >= MIN_ATTRIBUTE && value <= MAX_ATTRIBUTE;
+
+// Returns the first problem with the party, or null when it can be submitted
+export function validateParty(members: PartyMember[]): string | null {
+  if (members.length < MIN_PARTY_SIZE || members.length > MAX_PARTY_SIZE) {
+    return `A party needs ${MIN_PARTY_SIZE}-${MAX_PARTY_SIZE} characters`;
+  }
+  for (const member of members) {
+    if (!member.name.trim()) return "Every character needs a name";
+    if (![member.strength, member.agility, member.intelligence].every(isValidAttribute)) {
+      return `${member.name}'s attributes must be between ${MIN_ATTRIBUTE} and ${MAX_ATTRIBUTE}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,80 @@
+// game/prng.ts
+// Seedable xoshiro128** generator. Only 32-bit integer math (Math.imul, >>>)
+// is used so a given seed yields the same sequence in every JS engine.
+
+export interface Rng {
+  /** Next raw 32-bit unsigned integer */
+  next: () => number;
+  /** Float in [0, 1) */
+  float: () => number;
+  /** Integer in [min, max], both inclusive */
+  int: (min: number, max: number) => number;
+  /** True with the given probability */
+  chance: (probability: number) => boolean;
+  pick: <T>(items: readonly T[]) => T;
+  shuffle: <T>(items: readonly T[]) => T[];
+}
+
+const rotl = (x: number, k: number) => (x << k) | (x >>> (32 - k));
+
+// splitmix32 expands a single 32-bit seed into the 128-bit xoshiro state
+const splitmix32 = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x9e3779b9) >>> 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+};
+
+// Mixes extra values into a seed (e.g. a floor index) so related streams stay independent
+export function deriveSeed(seed: number, ...salts: number[]): number {
+  return salts.reduce((mixed, salt) => splitmix32((mixed ^ Math.imul(salt + 1, 0x85ebca6b)) >>> 0)(), seed >>> 0);
+}
+
+export function createRng(seed: number): Rng {
+  const init = splitmix32(seed);
+  let s0 = init();
+  let s1 = init();
+  let s2 = init();
+  let s3 = init();
+
+  const next = () => {
+    const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+    const t = s1 << 9;
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotl(s3, 11);
+    return result;
+  };
+
+  const float = () => next() / 0x100000000;
+
+  const int = (min: number, max: number) => {
+    if (max < min) throw new Error(`Invalid range [${min}, ${max}]`);
+    return min + Math.floor(float() * (max - min + 1));
+  };
+
+  const chance = (probability: number) => float() < probability;
+
+  const pick = <T>(items: readonly T[]): T => {
+    if (items.length === 0) throw new Error("Cannot pick from an empty list");
+    return items[int(0, items.length - 1)];
+  };
+
+  const shuffle = <T>(items: readonly T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = int(0, i);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  };
+
+  return { next, float, int, chance, pick, shuffle };
+}
@@ -0,0 +1,59 @@
+// game/registry.ts
+// Every dungeon record stores the generator version it was created with, so
+// its floors can be rebuilt exactly even after the generator moves on.
+// A registered version must never change output: to change generation, add a
+// new version next to the old one and point CURRENT_GENERATOR_VERSION at it.
+// Versions are numbered by age: v1 is the single-floor generator that runs
+// were recorded on before multi-floor dungeons.
+// test/generator.golden.ts freezes the floors of every version listed here and
+// the replays of runs played in them under their exploration rules.
+import type { PartyAttributes } from "./party";
+import { DungeonMap } from "./dungeonMap";
+import { generateDungeon } from "./generator";
+import { generateFloors } from "./floors";
+import { deriveGenerationParams } from "./ruleset";
+
+export interface DungeonGenerator {
+  version: number;
+  rulesetVersion: number;
+  /** EXPLORATION_RULES_VERSION that runs in these dungeons are played and replayed with */
+  explorationRules: number;
+  description: string;
+  generate: (dungeonSeed: number, totals: PartyAttributes) => DungeonMap[];
+}
+
+const GENERATORS: DungeonGenerator[] = [
+  {
+    version: 1,
+    rulesetVersion: 1,
+    explorationRules: 1,
+    description: "One BSP or cellular floor built straight from the dungeon seed, attribute scaled content, boss at the exit",
+    // The ruleset knobs were the same before multi-floor dungeons, only their version stamp differs
+    generate: (dungeonSeed, totals) => [generateDungeon(dungeonSeed, { ...deriveGenerationParams(totals), rulesetVersion: 1 })]
+  },
+  {
+    version: 2,
+    rulesetVersion: 2,
+    explorationRules: 1,
+    description: "BSP chambers or cellular caverns, 3-5 floors, attribute and depth scaled content",
+    generate: generateFloors
+  }
+];
+
+export const CURRENT_GENERATOR_VERSION = 2;
+
+/**
+ * Generator of a record written before generator versions were stored. A run recorded
+ * without floorProgress was played before multi-floor dungeons, on the single-floor
+ * generator; any other such record was last shown, and is explored, with v2.
+ */
+export const legacyGeneratorVersion = (record: { outcome?: unknown; floorProgress?: unknown }) =>
+  record.outcome != null && record.floorProgress === undefined ? 1 : 2;
+
+export const generatorVersions = () => GENERATORS.map(generator => generator.version);
+
+export function getGenerator(version: number): DungeonGenerator {
+  const generator = GENERATORS.find(g => g.version === version);
+  if (!generator) throw new Error(`Unknown dungeon generator version ${version}`);
+  return generator;
+}
@@ -0,0 +1,92 @@
+// game/ruleset.ts
+// Maps the decrypted party totals to generation knobs. Any change to these
+// numbers must bump RULESET_VERSION so players can tell which rules built a dungeon.
+import type { PartyAttributes } from "./party";
+
+export const RULESET_VERSION = 2;
+
+export type LootRarity = "common" | "uncommon" | "rare" | "epic" | "legendary";
+
+export const LOOT_RARITIES: LootRarity[] = ["common", "uncommon", "rare", "epic", "legendary"];
+
+export interface GenerationParams {
+  rulesetVersion: number;
+  /** Weight (0-1) of monster rooms among ordinary rooms */
+  monsterDensity: number;
+  /** Monster tier 1-5, boss is one tier higher */
+  monsterTier: number;
+  /** Weight (0-1) of trap rooms among ordinary rooms */
+  trapFrequency: number;
+  /** Dead-end rooms hidden behind secret doors */
+  secretRooms: number;
+  /** Rooms holding a puzzle instead of a fight */
+  puzzleRooms: number;
+  /** Best loot rarity treasure rooms can roll */
+  lootRarity: LootRarity;
+}
+
+// Party totals at or above this count as maxed out (e.g. three members at 99 and a bit)
+export const ATTRIBUTE_CAP = 300;
+
+const normalize = (total: number) => Math.min(Math.max(total, 0), ATTRIBUTE_CAP) / ATTRIBUTE_CAP;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function deriveGenerationParams(totals: PartyAttributes): GenerationParams {
+  const strength = normalize(totals.strength);
+  const agility = normalize(totals.agility);
+  const intellect = normalize(totals.intelligence);
+  return {
+    rulesetVersion: RULESET_VERSION,
+    monsterDensity: round2(0.25 + 0.35 * strength),
+    monsterTier: 1 + Math.min(Math.floor(strength * 5), 4),
+    trapFrequency: round2(0.1 + 0.25 * agility),
+    secretRooms: Math.min(Math.floor(agility * 4), 3),
+    puzzleRooms: Math.min(Math.floor(intellect * 5), 4),
+    lootRarity: LOOT_RARITIES[Math.min(Math.floor(intellect * 5), 4)]
+  };
+}
+
+// Every floor below the first adds this much on top of the party-derived numbers
+export const MIN_FLOORS = 3;
+export const MAX_FLOORS = 5;
+const DEPTH_MONSTER_DENSITY = 0.05;
+const DEPTH_TRAP_FREQUENCY = 0.03;
+const MAX_MONSTER_DENSITY = 0.8;
+const MAX_TRAP_FREQUENCY = 0.5;
+const MAX_MONSTER_TIER = 5;
+
+export function paramsForFloor(base: GenerationParams, floor: number): GenerationParams {
+  const rarity = LOOT_RARITIES.indexOf(base.lootRarity) + Math.floor(floor / 2);
+  return {
+    ...base,
+    monsterDensity: round2(Math.min(base.monsterDensity + DEPTH_MONSTER_DENSITY * floor, MAX_MONSTER_DENSITY)),
+    monsterTier: Math.min(base.monsterTier + floor, MAX_MONSTER_TIER),
+    trapFrequency: round2(Math.min(base.trapFrequency + DEPTH_TRAP_FREQUENCY * floor, MAX_TRAP_FREQUENCY)),
+    lootRarity: LOOT_RARITIES[Math.min(rarity, LOOT_RARITIES.length - 1)]
+  };
+}
+
+export interface RulesetEntry {
+  attribute: "Strength" | "Agility" | "Intelligence" | "Depth";
+  effect: string;
+  formula: string;
+}
+
+// Human-readable form of deriveGenerationParams, rendered in the About tab
+export const RULESET: { version: number; cap: number; entries: RulesetEntry[] } = {
+  version: RULESET_VERSION,
+  cap: ATTRIBUTE_CAP,
+  entries: [
+    { attribute: "Strength", effect: "Monster density", formula: "25% + 35% × STR/300" },
+    { attribute: "Strength", effect: "Monster tier", formula: "1 + ⌊5 × STR/300⌋, max 5 (boss +1)" },
+    { attribute: "Agility", effect: "Trap frequency", formula: "10% + 25% × AGI/300" },
+    { attribute: "Agility", effect: "Secret rooms", formula: "⌊4 × AGI/300⌋, max 3" },
+    { attribute: "Intelligence", effect: "Puzzle rooms", formula: "⌊5 × INT/300⌋, max 4" },
+    { attribute: "Intelligence", effect: "Best loot rarity", formula: "common → legendary in steps of 60 INT" },
+    { attribute: "Depth", effect: "Floors", formula: "3-5, picked by the dungeon seed; boss on the last floor" },
+    { attribute: "Depth", effect: "Monster tier", formula: "+1 per floor below the first, max 5" },
+    { attribute: "Depth", effect: "Monster density / traps", formula: "+5% / +3% per floor, max 80% / 50%" },
+    { attribute: "Depth", effect: "Best loot rarity", formula: "+1 step every two floors" }
+  ]
+};
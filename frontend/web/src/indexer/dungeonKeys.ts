@@ -0,0 +1,76 @@
+// indexer/dungeonKeys.ts
+// UniversalAdapter key scheme for dungeon records. The single shared
+// "dungeon_keys" list used to be rewritten by every creator, so two creations
+// in flight could drop each other's id. New ids go into a list owned by the
+// creator instead, and the full set is rebuilt from DataStored events, which no
+// writer can lose. The shared list is only read, for records older than the
+// indexed history, and is rewritten by the dungeon-keys:repair task.
+import { ethers } from "ethers";
+import { IndexedEvent, compareEvents } from "./events";
+
+export const LEGACY_KEYS_KEY = "dungeon_keys";
+
+const OWNER_KEYS_PREFIX = `${LEGACY_KEYS_KEY}_`;
+const RECORD_PREFIX = "dungeon_";
+
+export const ownerKeysKey = (owner: string) => `${OWNER_KEYS_PREFIX}${owner.toLowerCase()}`;
+
+export const recordKey = (dungeonId: string) => `${RECORD_PREFIX}${dungeonId}`;
+
+// Tags every submitPartyAttributes of a dungeon's party, so its members are counted per dungeon
+export const dungeonPartyId = (dungeonId: string) => ethers.id(dungeonId);
+
+// Provider of the first submission tagged with each party id. A dungeon's party is submitted before
+// its record is written, so whoever races the record write cannot have submitted it
+export function partyCreators(events: IndexedEvent[]): Map<string, string> {
+  const creators = new Map<string, string>();
+  for (const event of [...events].sort(compareEvents)) {
+    if (event.name === "PartyAttributesSubmitted" && !creators.has(event.partyId)) creators.set(event.partyId, event.provider);
+  }
+  return creators;
+}
+
+export const dungeonCreator = (creators: Map<string, string>, dungeonId: string) => creators.get(dungeonPartyId(dungeonId)) ?? null;
+
+const isKeyList = (key: string) => key === LEGACY_KEYS_KEY || key.startsWith(OWNER_KEYS_PREFIX);
+
+export const isRecordKey = (key: string) => key.startsWith(RECORD_PREFIX) && !isKeyList(key);
+
+export function parseKeyList(value: string): string[] {
+  if (ethers.dataLength(value) === 0) return [];
+  try {
+    const text = ethers.toUtf8String(value);
+    if (text.trim() === "") return [];
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch (e) {
+    console.error("Error parsing dungeon keys:", e);
+    return [];
+  }
+}
+
+export const encodeKeyList = (ids: string[]) => ethers.toUtf8Bytes(JSON.stringify(ids));
+
+// Keeps the first occurrence of every id, so earlier lists decide the order
+export const mergeKeyLists = (...lists: string[][]) => [...new Set(lists.flat())];
+
+// Every dungeon id ever written, in order of its first record write
+export function dungeonIdsFromEvents(events: IndexedEvent[]): string[] {
+  const ids: string[] = [];
+  for (const event of [...events].sort(compareEvents)) {
+    if (event.name === "DataStored" && isRecordKey(event.key)) ids.push(event.key.slice(RECORD_PREFIX.length));
+  }
+  return mergeKeyLists(ids);
+}
+
+// An owner's list only counts when that owner wrote it; the shared list has no owner to check
+const isListWriter = (key: string, sender: string) => key === LEGACY_KEYS_KEY || key === ownerKeysKey(sender);
+
+// Contents of every key list as of its latest write, for ids whose record predates the indexed history
+export function keyListsFromEvents(events: IndexedEvent[]): string[][] {
+  const latest = new Map<string, string>();
+  for (const event of [...events].sort(compareEvents)) {
+    if (event.name === "DataStored" && isKeyList(event.key) && isListWriter(event.key, event.sender)) latest.set(event.key, event.value);
+  }
+  return [...latest.values()].map(parseKeyList);
+}
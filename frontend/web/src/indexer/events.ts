@@ -0,0 +1,148 @@
+// indexer/events.ts
+// Decoded form of every log the indexer keeps. Values are plain numbers and
+// strings so events survive both JSON and IndexedDB structured cloning.
+import { ethers } from "ethers";
+
+export type IndexedEventName =
+  | "DataStored"
+  | "BatchOpened"
+  | "PartyAttributesSubmitted"
+  | "DungeonSeedGenerated"
+  | "DecryptionRequested"
+  | "DecryptionCompleted"
+  | "CooldownSecondsChanged"
+  | "ProviderAdded"
+  | "ProviderRemoved";
+
+export const INDEXED_EVENTS: IndexedEventName[] = [
+  "DataStored",
+  "BatchOpened",
+  "PartyAttributesSubmitted",
+  "DungeonSeedGenerated",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "CooldownSecondsChanged",
+  "ProviderAdded",
+  "ProviderRemoved"
+];
+
+interface LogPosition {
+  /** Sortable "block:logIndex" id, unique per chain */
+  id: string;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type IndexedEvent = LogPosition & (
+  | { name: "DataStored"; sender: string; key: string; value: string }
+  | { name: "BatchOpened"; batchId: number }
+  | { name: "PartyAttributesSubmitted"; batchId: number; provider: string; partyId: string }
+  | { name: "DungeonSeedGenerated"; batchId: number }
+  | { name: "DecryptionRequested"; requestId: string; batchId: number }
+  | {
+      name: "DecryptionCompleted";
+      requestId: string;
+      batchId: number;
+      strength: number;
+      agility: number;
+      intellect: number;
+      seed: number;
+    }
+  | { name: "CooldownSecondsChanged"; oldCooldown: number; newCooldown: number }
+  | { name: "ProviderAdded"; provider: string }
+  | { name: "ProviderRemoved"; provider: string }
+);
+
+export type EventOf<N extends IndexedEventName> = Extract<IndexedEvent, { name: N }>;
+
+export const eventId = (blockNumber: number, logIndex: number) =>
+  `${blockNumber.toString().padStart(12, "0")}:${logIndex.toString().padStart(6, "0")}`;
+
+export const compareEvents = (a: IndexedEvent, b: IndexedEvent) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+// One interface holding only the indexed events of both contracts, so a single getLogs call covers them
+export function createEventInterface(...abis: ethers.InterfaceAbi[]): ethers.Interface {
+  const fragments = abis
+    .flatMap(abi => new ethers.Interface(abi).fragments)
+    .filter((fragment): fragment is ethers.EventFragment =>
+      ethers.EventFragment.isFragment(fragment) && INDEXED_EVENTS.includes(fragment.name as IndexedEventName)
+    );
+  return new ethers.Interface(fragments);
+}
+
+export const eventTopics = (iface: ethers.Interface) => INDEXED_EVENTS.flatMap(name => iface.getEvent(name)?.topicHash ?? []);
+
+export function decodeLog(iface: ethers.Interface, log: ethers.Log): IndexedEvent | null {
+  const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+  const position: LogPosition = {
+    id: eventId(log.blockNumber, log.index),
+    address: ethers.getAddress(log.address),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index
+  };
+  const args = parsed.args;
+  switch (parsed.name as IndexedEventName) {
+    case "DataStored":
+      return { ...position, name: "DataStored", sender: ethers.getAddress(args.sender), key: args.key, value: ethers.hexlify(args.value) };
+    case "BatchOpened":
+      return { ...position, name: "BatchOpened", batchId: Number(args.batchId) };
+    case "PartyAttributesSubmitted":
+      return {
+        ...position,
+        name: "PartyAttributesSubmitted",
+        batchId: Number(args.batchId),
+        provider: ethers.getAddress(args.provider),
+        partyId: args.partyId
+      };
+    case "DungeonSeedGenerated":
+      return { ...position, name: "DungeonSeedGenerated", batchId: Number(args.batchId) };
+    case "DecryptionRequested":
+      return { ...position, name: "DecryptionRequested", requestId: args.requestId.toString(), batchId: Number(args.batchId) };
+    case "DecryptionCompleted":
+      return {
+        ...position,
+        name: "DecryptionCompleted",
+        requestId: args.requestId.toString(),
+        batchId: Number(args.batchId),
+        strength: Number(args.strength),
+        agility: Number(args.agility),
+        intellect: Number(args.intellect),
+        seed: Number(args.seed)
+      };
+    case "CooldownSecondsChanged":
+      return { ...position, name: "CooldownSecondsChanged", oldCooldown: Number(args.oldCooldown), newCooldown: Number(args.newCooldown) };
+    case "ProviderAdded":
+      return { ...position, name: "ProviderAdded", provider: ethers.getAddress(args.provider) };
+    case "ProviderRemoved":
+      return { ...position, name: "ProviderRemoved", provider: ethers.getAddress(args.provider) };
+    default:
+      return null;
+  }
+}
+
+// Latest value written for every UniversalAdapter key, in event order
+export function latestData(events: IndexedEvent[]): Map<string, EventOf<"DataStored">> {
+  const latest = new Map<string, EventOf<"DataStored">>();
+  for (const event of [...events].sort(compareEvents)) {
+    if (event.name === "DataStored") latest.set(event.key, event);
+  }
+  return latest;
+}
+
+// Every value written to each UniversalAdapter key, oldest first
+export function dataWrites(events: IndexedEvent[]): Map<string, EventOf<"DataStored">[]> {
+  const writes = new Map<string, EventOf<"DataStored">[]>();
+  for (const event of [...events].sort(compareEvents)) {
+    if (event.name !== "DataStored") continue;
+    const key = writes.get(event.key);
+    if (key) key.push(event);
+    else writes.set(event.key, [event]);
+  }
+  return writes;
+}
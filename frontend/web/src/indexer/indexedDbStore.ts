@@ -0,0 +1,94 @@
+// indexer/indexedDbStore.ts
+// IndexedDB flavour of IndexerStore, so a returning browser only fetches the
+// blocks it missed since the last visit.
+import { IndexedEvent, compareEvents } from "./events";
+import { IndexedBlock, IndexerStore, createMemoryStore, matches, trimRecent } from "./store";
+
+const EVENTS = "events";
+const META = "meta";
+const CURSOR_KEY = "cursor";
+const RECENT_KEY = "recentBlocks";
+// Raised whenever INDEXED_EVENTS grows: an older store has none of the new events below its
+// cursor, so the upgrade drops it and the next sync backfills from startBlock
+const DB_VERSION = 2;
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const done = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+});
+
+const openDatabase = (name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const open = indexedDB.open(name, DB_VERSION);
+  open.onupgradeneeded = () => {
+    for (const store of [...open.result.objectStoreNames]) open.result.deleteObjectStore(store);
+    const events = open.result.createObjectStore(EVENTS, { keyPath: "id" });
+    events.createIndex("blockNumber", "blockNumber");
+    open.result.createObjectStore(META);
+  };
+  open.onsuccess = () => resolve(open.result);
+  open.onerror = () => reject(open.error);
+});
+
+export async function createIndexedDbStore(name: string): Promise<IndexerStore> {
+  const db = await openDatabase(name);
+
+  const readMeta = async <T>(key: string): Promise<T | undefined> =>
+    request(db.transaction(META, "readonly").objectStore(META).get(key));
+
+  return {
+    getCursor: async () => (await readMeta<IndexedBlock>(CURSOR_KEY)) ?? null,
+    getRecentBlocks: async () => (await readMeta<IndexedBlock[]>(RECENT_KEY)) ?? [],
+    commit: async (chunk, next, keepBlocks) => {
+      const recent = trimRecent((await readMeta<IndexedBlock[]>(RECENT_KEY)) ?? [], chunk, next, keepBlocks);
+      const tx = db.transaction([EVENTS, META], "readwrite");
+      const events = tx.objectStore(EVENTS);
+      for (const event of chunk) events.put(event);
+      tx.objectStore(META).put(next, CURSOR_KEY);
+      tx.objectStore(META).put(recent, RECENT_KEY);
+      await done(tx);
+    },
+    rollback: async (to) => {
+      const recent = (await readMeta<IndexedBlock[]>(RECENT_KEY)) ?? [];
+      const tx = db.transaction([EVENTS, META], "readwrite");
+      const range = to === null ? undefined : IDBKeyRange.lowerBound(to.blockNumber, true);
+      const dropped: IndexedEvent[] = await request(tx.objectStore(EVENTS).index("blockNumber").getAll(range));
+      for (const event of dropped) tx.objectStore(EVENTS).delete(event.id);
+      if (to === null) {
+        tx.objectStore(META).delete(CURSOR_KEY);
+        tx.objectStore(META).delete(RECENT_KEY);
+      } else {
+        tx.objectStore(META).put(to, CURSOR_KEY);
+        tx.objectStore(META).put(recent.filter(block => block.blockNumber <= to.blockNumber), RECENT_KEY);
+      }
+      await done(tx);
+      return dropped.sort(compareEvents);
+    },
+    query: async (query = {}) => {
+      const all: IndexedEvent[] = await request(db.transaction(EVENTS, "readonly").objectStore(EVENTS).getAll());
+      return all.filter(event => matches(event, query)).sort(compareEvents);
+    },
+    clear: async () => {
+      const tx = db.transaction([EVENTS, META], "readwrite");
+      tx.objectStore(EVENTS).clear();
+      tx.objectStore(META).clear();
+      await done(tx);
+    }
+  };
+}
+
+// IndexedDB when the browser has it (and lets us open it), memory otherwise
+export async function openIndexerStore(name: string): Promise<IndexerStore> {
+  if (typeof indexedDB === "undefined") return createMemoryStore();
+  try {
+    return await createIndexedDbStore(name);
+  } catch (e) {
+    console.warn("IndexedDB unavailable, indexing in memory:", e);
+    return createMemoryStore();
+  }
+}
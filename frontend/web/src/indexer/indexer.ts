@@ -0,0 +1,199 @@
+// indexer/indexer.ts
+// Backfills UniversalAdapter and DungeonGenFHE logs into a store, then follows
+// the chain head. Logs are fetched in block ranges that shrink when the RPC
+// refuses a range and grow back afterwards. Before every pass the cursor's
+// block hash is compared with the chain; on a mismatch the store is rolled back
+// to the newest block both still agree on and indexing resumes from there. A
+// chunk is only committed when every log in it sits in a block that is still
+// canonical, so a reorg while it is read makes the chunk be read again.
+import { ethers } from "ethers";
+import { IndexedEvent, createEventInterface, decodeLog, eventTopics } from "./events";
+import { IndexedBlock, IndexerStore } from "./store";
+
+export interface EventIndexerOptions {
+  provider: ethers.Provider;
+  /** Contracts whose logs are indexed */
+  addresses: string[];
+  abis: ethers.InterfaceAbi[];
+  store: IndexerStore;
+  /** First block to backfill from, normally the deployment block */
+  startBlock: number;
+  /** Blocks per getLogs call; halved on RPC range errors down to minChunkSize */
+  chunkSize?: number;
+  minChunkSize?: number;
+  /** How far back reorgs are tracked */
+  reorgDepth?: number;
+  /** Delay between follow passes, in milliseconds */
+  pollInterval?: number;
+}
+
+export interface IndexerChange {
+  added: IndexedEvent[];
+  removed: IndexedEvent[];
+  cursor: IndexedBlock | null;
+}
+
+export interface EventIndexer {
+  store: IndexerStore;
+  /** Indexes up to the current head; concurrent calls share one pass */
+  sync(): Promise<void>;
+  /** Syncs now and then every pollInterval until stopped */
+  start(): void;
+  stop(): void;
+  subscribe(listener: (change: IndexerChange) => void): () => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 2000;
+const DEFAULT_MIN_CHUNK_SIZE = 10;
+const DEFAULT_REORG_DEPTH = 64;
+const DEFAULT_POLL_INTERVAL = 12000;
+// Chunks read again in one pass because their blocks changed meanwhile, before the pass gives up
+const MAX_CHUNK_RETRIES = 5;
+
+export function createEventIndexer(options: EventIndexerOptions): EventIndexer {
+  const { provider, store, startBlock } = options;
+  const addresses = options.addresses.map(address => ethers.getAddress(address));
+  const maxChunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const minChunkSize = Math.min(options.minChunkSize ?? DEFAULT_MIN_CHUNK_SIZE, maxChunkSize);
+  const reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+
+  const iface = createEventInterface(...options.abis);
+  const topics = eventTopics(iface);
+  const listeners = new Set<(change: IndexerChange) => void>();
+  let chunkSize = maxChunkSize;
+  let syncing: Promise<void> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  const notify = (change: IndexerChange) => {
+    if (change.added.length === 0 && change.removed.length === 0) return;
+    for (const listener of listeners) {
+      try { listener(change); } catch (e) { console.error("Indexer listener failed:", e); }
+    }
+  };
+
+  const blockAt = async (blockNumber: number): Promise<IndexedBlock> => {
+    const block = await provider.getBlock(blockNumber);
+    if (!block?.hash) throw new Error(`Block ${blockNumber} is not available`);
+    return { blockNumber, blockHash: block.hash };
+  };
+
+  // Newest recorded block that is still canonical; null means start over from startBlock
+  const findForkPoint = async (): Promise<IndexedBlock | null> => {
+    const recent = await store.getRecentBlocks();
+    for (const block of [...recent].reverse()) {
+      const canonical = await provider.getBlock(block.blockNumber);
+      if (canonical?.hash === block.blockHash) return block;
+    }
+    const oldest = recent[0]?.blockNumber ?? startBlock;
+    return oldest - 1 >= startBlock ? blockAt(oldest - 1) : null;
+  };
+
+  const checkReorg = async (cursor: IndexedBlock): Promise<IndexerChange | null> => {
+    const canonical = await provider.getBlock(cursor.blockNumber);
+    if (canonical?.hash === cursor.blockHash) return null;
+    const forkPoint = await findForkPoint();
+    const removed = await store.rollback(forkPoint);
+    console.warn(`Chain reorg below block ${cursor.blockNumber}: rolled back to ${forkPoint?.blockNumber ?? "the start"}, dropped ${removed.length} events`);
+    return { added: [], removed, cursor: forkPoint };
+  };
+
+  const isRangeError = (e: any) => {
+    const message = `${e?.message ?? ""} ${e?.error?.message ?? ""}`.toLowerCase();
+    return ["range", "limit", "too many", "exceed", "timeout", "10000"].some(hint => message.includes(hint));
+  };
+
+  const fetchLogs = async (fromBlock: number, toBlock: number): Promise<ethers.Log[]> =>
+    provider.getLogs({ address: addresses, topics: [topics], fromBlock, toBlock });
+
+  // Whether every log's block, and the chunk's last block, is still the one on the canonical chain
+  const isCanonical = async (logs: ethers.Log[], end: IndexedBlock) => {
+    const hashes = new Map<number, string>();
+    for (const block of [...logs.map(log => log.blockNumber), end.blockNumber]) {
+      if (!hashes.has(block)) hashes.set(block, (await blockAt(block)).blockHash);
+    }
+    return hashes.get(end.blockNumber) === end.blockHash && logs.every(log => hashes.get(log.blockNumber) === log.blockHash);
+  };
+
+  const pass = async () => {
+    let cursor = await store.getCursor();
+    if (cursor) {
+      const reorg = await checkReorg(cursor);
+      if (reorg) {
+        notify(reorg);
+        cursor = reorg.cursor;
+      }
+    }
+    const head = await provider.getBlockNumber();
+    let from = cursor ? cursor.blockNumber + 1 : startBlock;
+    let retries = 0;
+
+    while (from <= head) {
+      const to = Math.min(from + chunkSize - 1, head);
+      // Read before the logs, so logs from a fork that replaced this block cannot match it
+      const next = await blockAt(to);
+      let logs: ethers.Log[];
+      try {
+        logs = (await fetchLogs(from, to)).filter(log => !log.removed);
+      } catch (e) {
+        if (chunkSize > minChunkSize && isRangeError(e)) {
+          chunkSize = Math.max(minChunkSize, Math.floor(chunkSize / 2));
+          continue;
+        }
+        throw e;
+      }
+      if (!(await isCanonical(logs, next))) {
+        if (++retries > MAX_CHUNK_RETRIES) throw new Error(`Blocks ${from}-${to} kept changing while their logs were read`);
+        console.warn(`Blocks ${from}-${to} changed while their logs were read, reading them again`);
+        // The reorg may reach below the chunk, into blocks already committed
+        const reorg = cursor ? await checkReorg(cursor) : null;
+        if (reorg) {
+          notify(reorg);
+          cursor = reorg.cursor;
+          from = cursor ? cursor.blockNumber + 1 : startBlock;
+        }
+        continue;
+      }
+      const events = logs.map(log => decodeLog(iface, log)).filter((e): e is IndexedEvent => e !== null);
+      await store.commit(events, next, reorgDepth);
+      notify({ added: events, removed: [], cursor: next });
+      cursor = next;
+      from = to + 1;
+      chunkSize = Math.min(maxChunkSize, chunkSize * 2);
+    }
+  };
+
+  const sync = () => {
+    if (!syncing) syncing = pass().finally(() => { syncing = null; });
+    return syncing;
+  };
+
+  const schedule = () => {
+    if (!running) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(async () => {
+      try { await sync(); } catch (e) { console.error("Indexer sync failed:", e); }
+      schedule();
+    }, pollInterval);
+  };
+
+  return {
+    store,
+    sync,
+    start: () => {
+      if (running) return;
+      running = true;
+      sync().catch(e => console.error("Indexer sync failed:", e)).finally(schedule);
+    },
+    stop: () => {
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+}
@@ -0,0 +1,77 @@
+// indexer/store.ts
+// Where indexed events live. The memory store is the reference implementation
+// and the only one available outside the browser; indexedDbStore.ts keeps the
+// same contents across reloads.
+import { IndexedEvent, IndexedEventName, compareEvents } from "./events";
+
+export interface IndexedBlock {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface EventQuery {
+  names?: IndexedEventName[];
+  batchId?: number;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface IndexerStore {
+  /** Last block fully indexed, or null before the first sync */
+  getCursor(): Promise<IndexedBlock | null>;
+  /** Hashes of recently indexed blocks, oldest first, used to find the fork point of a reorg */
+  getRecentBlocks(): Promise<IndexedBlock[]>;
+  /** Atomically adds a chunk of events and moves the cursor to the end of the chunk */
+  commit(events: IndexedEvent[], cursor: IndexedBlock, keepBlocks: number): Promise<void>;
+  /** Drops every event above the block and makes it the cursor; returns what was dropped */
+  rollback(to: IndexedBlock | null): Promise<IndexedEvent[]>;
+  query(query?: EventQuery): Promise<IndexedEvent[]>;
+  clear(): Promise<void>;
+}
+
+export const matches = (event: IndexedEvent, query: EventQuery) =>
+  (!query.names || query.names.includes(event.name))
+  && (query.batchId === undefined || ("batchId" in event && event.batchId === query.batchId))
+  && (query.fromBlock === undefined || event.blockNumber >= query.fromBlock)
+  && (query.toBlock === undefined || event.blockNumber <= query.toBlock);
+
+// Keeps the cursor plus the blocks of recent events, as long as they are within keepBlocks of the cursor
+export const trimRecent = (recent: IndexedBlock[], events: IndexedEvent[], cursor: IndexedBlock, keepBlocks: number) => {
+  const byNumber = new Map(recent.map(block => [block.blockNumber, block]));
+  for (const event of events) byNumber.set(event.blockNumber, { blockNumber: event.blockNumber, blockHash: event.blockHash });
+  byNumber.set(cursor.blockNumber, cursor);
+  return [...byNumber.values()]
+    .filter(block => block.blockNumber > cursor.blockNumber - keepBlocks)
+    .sort((a, b) => a.blockNumber - b.blockNumber);
+};
+
+export function createMemoryStore(): IndexerStore {
+  let events: IndexedEvent[] = [];
+  let cursor: IndexedBlock | null = null;
+  let recent: IndexedBlock[] = [];
+
+  return {
+    getCursor: async () => cursor,
+    getRecentBlocks: async () => recent,
+    commit: async (chunk, next, keepBlocks) => {
+      const known = new Set(events.map(event => event.id));
+      events = [...events, ...chunk.filter(event => !known.has(event.id))].sort(compareEvents);
+      recent = trimRecent(recent, chunk, next, keepBlocks);
+      cursor = next;
+    },
+    rollback: async (to) => {
+      const above = (blockNumber: number) => to === null || blockNumber > to.blockNumber;
+      const dropped = events.filter(event => above(event.blockNumber));
+      events = events.filter(event => !above(event.blockNumber));
+      recent = to === null ? [] : recent.filter(block => !above(block.blockNumber));
+      cursor = to;
+      return dropped;
+    },
+    query: async (query = {}) => events.filter(event => matches(event, query)),
+    clear: async () => {
+      events = [];
+      cursor = null;
+      recent = [];
+    }
+  };
+}
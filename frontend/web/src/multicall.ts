@@ -0,0 +1,122 @@
+// multicall.ts
+// Groups view calls so reading many dungeons costs a few requests instead of
+// one round trip each. Calls queued in the same tick are sent together through
+// Multicall3's aggregate3, which runs them in one eth_call. Chains without
+// Multicall3, such as a fresh Hardhat node, get the same calls as one JSON-RPC
+// batch of eth_calls instead, which the provider assembles on its own.
+import { ethers } from "ethers";
+
+// Same address on every chain Multicall3 is deployed to, mainnet and Sepolia included
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+// Keeps each aggregate3 well inside the gas and response size limits of public RPCs
+const DEFAULT_MAX_CALLS = 100;
+
+export interface MulticallOptions {
+  address?: string;
+  /** Calls per aggregate3; larger queues are split */
+  maxCalls?: number;
+}
+
+// The parts of a contract method needed to batch it; typechain and plain ethers.Contract methods both fit
+export interface ViewMethod<A extends Array<any>, R> {
+  fragment: ethers.FunctionFragment;
+  populateTransaction(...args: A): Promise<ethers.ContractTransaction>;
+  staticCall(...args: A): Promise<R>;
+}
+
+export interface Multicall {
+  /** Resolves like method.staticCall(...args); a revert rejects with its data for decodeContractError */
+  call<A extends Array<any>, R>(method: ViewMethod<A, R>, ...args: A): Promise<R>;
+}
+
+interface PendingCall {
+  to: string;
+  data: string;
+  fragment: ethers.FunctionFragment;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+// Unwraps single return values the way ethers' staticCall does
+const decodeResult = (fragment: ethers.FunctionFragment, data: string) => {
+  const result = ethers.AbiCoder.defaultAbiCoder().decode(fragment.outputs, data);
+  return result.length === 1 ? result[0] : result;
+};
+
+const revertError = (call: PendingCall, data: string) =>
+  Object.assign(new Error(`${call.fragment.name} reverted`), { code: "CALL_EXCEPTION", data });
+
+export function createMulticall(provider: ethers.Provider, options: MulticallOptions = {}): Multicall {
+  const address = options.address ?? MULTICALL3_ADDRESS;
+  const maxCalls = options.maxCalls ?? DEFAULT_MAX_CALLS;
+  const multicall3 = new ethers.Contract(address, MULTICALL3_ABI, provider);
+  let deployed: Promise<boolean> | null = null;
+  let queue: PendingCall[] = [];
+  let scheduled = false;
+
+  const isDeployed = () => {
+    if (!deployed) {
+      deployed = provider.getCode(address).then(code => code !== "0x", (e) => {
+        deployed = null;
+        throw e;
+      });
+    }
+    return deployed;
+  };
+
+  const settle = (call: PendingCall, success: boolean, data: string) => {
+    if (!success) {
+      call.reject(revertError(call, data));
+      return;
+    }
+    try { call.resolve(decodeResult(call.fragment, data)); } catch (e) { call.reject(e); }
+  };
+
+  const aggregate = async (calls: PendingCall[]) => {
+    try {
+      const results = await multicall3.aggregate3.staticCall(calls.map(call => ({ target: call.to, allowFailure: true, callData: call.data })));
+      results.forEach(([success, returnData]: [boolean, string], index: number) => settle(calls[index], success, returnData));
+    } catch (e) {
+      for (const call of calls) call.reject(e);
+    }
+  };
+
+  const flush = async () => {
+    const calls = queue;
+    queue = [];
+    scheduled = false;
+    let useMulticall3: boolean;
+    try {
+      useMulticall3 = await isDeployed();
+    } catch (e) {
+      for (const call of calls) call.reject(e);
+      return;
+    }
+    if (useMulticall3) {
+      for (let start = 0; start < calls.length; start += maxCalls) aggregate(calls.slice(start, start + maxCalls));
+      return;
+    }
+    // Issued in the same tick, so the JSON-RPC provider sends them as one batch
+    for (const call of calls) {
+      provider.call({ to: call.to, data: call.data }).then(data => settle(call, true, data), call.reject);
+    }
+  };
+
+  return {
+    call: async (method, ...args) => {
+      const { to, data } = await method.populateTransaction(...args);
+      return new Promise((resolve, reject) => {
+        queue.push({ to, data, fragment: method.fragment, resolve, reject });
+        if (!scheduled) {
+          scheduled = true;
+          setTimeout(flush, 0);
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,22 @@
+// permit.ts
+// Decryption permits as the relayer takes them and as the dungeon cache keeps
+// them. Types only, so the cache can name them without loading the FHE SDK.
+
+// A signed EIP-712 user-decrypt request; the relayer honours it for durationDays
+export interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  userAddress: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// What the dungeon cache keeps of a permit: the private key is only stored encrypted under
+// its own non-extractable AES-GCM key, which the browser can use but never hands back as bytes
+export interface StoredPermit extends Omit<DecryptionPermit, "privateKey"> {
+  wrappingKey: CryptoKey;
+  iv: Uint8Array<ArrayBuffer>;
+  wrappedPrivateKey: ArrayBuffer;
+}
@@ -0,0 +1,51 @@
+// records/authorChecks.ts
+// Recovering a record's signer is by far the slowest part of loading the
+// dungeon list, and its verdict only depends on the key, the stored bytes and
+// who wrote them. Verdicts are kept in localStorage per chain and adapter, so
+// each version of a record is verified once per device.
+import { ethers } from "ethers";
+import type { DecodedDungeonRecord } from "./dungeonRecord";
+import { checkRecordAuthor } from "./recordSignature";
+
+export interface AuthorChecks {
+  /** checkRecordAuthor, answered from the stored verdict when this exact write was checked before */
+  check(dungeonId: string, value: string, decoded: DecodedDungeonRecord, sender: string | null): string | null;
+  /** Stores the verdicts used since the last save. A dungeon checked again keeps only its new verdicts, dropping those of overwritten records */
+  save(): void;
+}
+
+// Verdicts per dungeon id, then per write
+type Verdicts = Record<string, Record<string, string | null>>;
+
+const storage = () => (typeof localStorage === "undefined" ? null : localStorage);
+
+export function loadAuthorChecks(domain: ethers.TypedDataDomain, storageKey: string): AuthorChecks {
+  let stored: Verdicts = {};
+  try {
+    const parsed = JSON.parse(storage()?.getItem(storageKey) ?? "{}");
+    // Verdicts stored flat, before the list was read a page at a time, are dropped and checked again
+    stored = Object.fromEntries(Object.entries(parsed).filter(([, writes]) => typeof writes === "object" && writes !== null)) as Verdicts;
+  } catch (e) {
+    console.warn("Discarding stored record verdicts:", e);
+  }
+  let used: Verdicts = {};
+
+  return {
+    check: (dungeonId, value, decoded, sender) => {
+      const id = ethers.keccak256(ethers.concat([ethers.toUtf8Bytes(`${dungeonId}:${sender ?? ""}:`), value]));
+      const known = { ...stored[dungeonId], ...used[dungeonId] };
+      const verdict = id in known ? known[id] : checkRecordAuthor(domain, dungeonId, decoded, sender);
+      used[dungeonId] = { ...used[dungeonId], [id]: verdict };
+      return verdict;
+    },
+    save: () => {
+      stored = { ...stored, ...used };
+      used = {};
+      try {
+        storage()?.setItem(storageKey, JSON.stringify(stored));
+      } catch (e) {
+        console.warn("Could not store record verdicts:", e);
+      }
+    }
+  };
+}
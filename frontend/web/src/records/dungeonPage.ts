@@ -0,0 +1,40 @@
+// records/dungeonPage.ts
+// The dungeon list is read one page at a time. Keys are ordered from the
+// indexed history alone, so picking a page reads no record; only the records
+// on the page are then decoded and checked.
+import { ethers } from "ethers";
+import type { EventOf } from "../indexer/events";
+import { dungeonCreator, recordKey } from "../indexer/dungeonKeys";
+import { ownerWrites } from "./recordOwnership";
+
+export const DUNGEONS_PER_PAGE = 12;
+
+export interface DungeonPage {
+  keys: string[];
+  /** The page asked for, moved back to the last page when the list has shrunk */
+  page: number;
+  pageCount: number;
+}
+
+/**
+ * Newest first by the first indexed write to each record key. Ids the indexer has not seen
+ * follow in the order given, and ids whose owner emptied the record are left out.
+ * `creators` comes from partyCreators and decides whose writes count, as in resolveRecord.
+ */
+export function orderDungeonKeys(ids: string[], writes: Map<string, EventOf<"DataStored">[]>, creators: Map<string, string>): string[] {
+  const isDeleted = (id: string) => {
+    const owned = ownerWrites(writes.get(recordKey(id)) ?? [], dungeonCreator(creators, id));
+    return owned.length > 0 && ethers.dataLength(owned[owned.length - 1].value) === 0;
+  };
+  return ids
+    .filter(id => !isDeleted(id))
+    .map((id, index) => ({ id, index, created: writes.get(recordKey(id))?.[0].id ?? "" }))
+    .sort((a, b) => b.created.localeCompare(a.created) || a.index - b.index)
+    .map(entry => entry.id);
+}
+
+export function dungeonPage(keys: string[], page: number, perPage = DUNGEONS_PER_PAGE): DungeonPage {
+  const pageCount = Math.max(1, Math.ceil(keys.length / perPage));
+  const current = Math.min(Math.max(page, 0), pageCount - 1);
+  return { keys: keys.slice(current * perPage, (current + 1) * perPage), page: current, pageCount };
+}
@@ -0,0 +1,210 @@
+// records/dungeonRecord.ts
+// The dungeon record stored in UniversalAdapter under dungeon_<id>. Anyone can
+// write any key, so every record is decoded through here: older shapes are
+// migrated step by step to the current schema, then the result is validated
+// field by field and rebuilt from known fields only. Records that fail are
+// rejected with the reason instead of being patched up with defaults. Who
+// wrote a record is checked separately, in recordSignature.ts. Records are
+// written in the binary form of recordCodec.ts; JSON records are still read.
+import { ethers } from "ethers";
+import { CHARACTER_CLASSES, CharacterClass, MAX_PARTY_SIZE, MIN_PARTY_SIZE } from "../game/party";
+import type { ExplorationOutcome } from "../game/exploration";
+import { legacyGeneratorVersion } from "../game/registry";
+import { decodeBinaryRecord, encodeBinaryRecord, isBinaryRecord } from "./recordCodec";
+
+export const DUNGEON_RECORD_SCHEMA = 3;
+
+export const MAX_DUNGEON_NAME_LENGTH = 64;
+export const MAX_CHARACTER_NAME_LENGTH = 32;
+export const MAX_RECORD_BYTES = 64 * 1024;
+
+export type DungeonRecordStatus = "generating" | "completed";
+
+export interface FloorSummary {
+  roomsVisited: number;
+  monstersDefeated: number;
+  treasuresFound: number;
+}
+
+export interface StoredDungeonRecord {
+  schema: typeof DUNGEON_RECORD_SCHEMA;
+  batchId: number;
+  /** Creation time in seconds */
+  timestamp: number;
+  owner: string;
+  dungeonName: string;
+  status: DungeonRecordStatus;
+  /** Generator that built (and must rebuild) this dungeon's floors */
+  generatorVersion: number;
+  /** Characters the owner planned to submit; attributes stay encrypted */
+  partySize: number;
+  party: { name: string; characterClass: CharacterClass }[];
+  monstersDefeated: number;
+  treasuresFound: number;
+  /** Set together once a run is recorded, null while the dungeon is unexplored */
+  outcome: ExplorationOutcome | null;
+  turns: number | null;
+  /** Encoded action log of the recorded run, replayable from the seed; null for runs recorded before replays */
+  actionLog: string | null;
+  floorProgress: FloorSummary[];
+}
+
+export interface DecodedDungeonRecord {
+  record: StoredDungeonRecord;
+  /** Owner's EIP-712 signature over the record, null for records written before schema 2 */
+  signature: string | null;
+  /** Schema the bytes were written with, lower than DUNGEON_RECORD_SCHEMA when migrated */
+  writtenSchema: number;
+}
+
+const OUTCOMES: ExplorationOutcome[] = ["victory", "retreat", "wipe"];
+
+// Schemas 1 and 2 numbered the generators the other way round: 1 was multi-floor, 2 single-floor
+const renumberGenerator = (version: unknown) => (version === 1 ? 2 : version === 2 ? 1 : version);
+
+// Each step lifts a record from its index to the next schema; nothing else may change old records
+const MIGRATIONS: ((record: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 0 -> 1: the untyped JSON written since dungeons came from DungeonGenFHE batches, whose optional
+  // fields were filled in by the reader. The placeholder records from before batches hold base64
+  // attributes instead of a batch, so there is no seed to rebuild their dungeon from
+  (record) => {
+    if (record.batchId === undefined) throw new Error("Record is from before dungeons came from DungeonGenFHE batches and names no batch to rebuild it from");
+    return {
+      ...record,
+      schema: 1,
+      status: record.status === "completed" ? "completed" : "generating",
+      // In the numbering of schemas 1 and 2, which the last step turns around
+      generatorVersion: record.generatorVersion ?? renumberGenerator(legacyGeneratorVersion(record)),
+      partySize: record.partySize ?? 1,
+      party: record.party ?? [],
+      monstersDefeated: record.monstersDefeated ?? 0,
+      treasuresFound: record.treasuresFound ?? 0,
+      outcome: record.outcome ?? null,
+      turns: record.turns ?? null,
+      actionLog: record.actionLog ?? null,
+      floorProgress: record.floorProgress ?? []
+    };
+  },
+  // 1 -> 2: records gained the owner's signature; older ones have none to carry over
+  (record) => ({ ...record, schema: 2, signature: null }),
+  // 2 -> 3: generator versions were renumbered by age; the signature still covers the old number, see signedRecord
+  (record) => ({ ...record, schema: 3, generatorVersion: renumberGenerator(record.generatorVersion) })
+];
+
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+
+const isText = (value: unknown, maxLength: number): value is string =>
+  typeof value === "string" && value.trim().length > 0 && value.length <= maxLength;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPartyMember = (value: unknown): value is StoredDungeonRecord["party"][number] =>
+  isObject(value) && isText(value.name, MAX_CHARACTER_NAME_LENGTH)
+  && typeof value.characterClass === "string" && Object.hasOwn(CHARACTER_CLASSES, value.characterClass);
+
+const isFloorSummary = (value: unknown): value is FloorSummary =>
+  isObject(value) && isCount(value.roomsVisited) && isCount(value.monstersDefeated) && isCount(value.treasuresFound);
+
+const describe = (value: unknown) => JSON.stringify(value)?.slice(0, 40) ?? String(value);
+
+// Rebuilds a current-schema record from untrusted input, or throws with the first problem found
+function validate(input: Record<string, unknown>): StoredDungeonRecord {
+  const fail = (field: string, expected: string): never => {
+    throw new Error(`${field} must be ${expected}, got ${describe(input[field])}`);
+  };
+
+  const { batchId, timestamp, owner, dungeonName, status, generatorVersion, partySize, party, monstersDefeated, treasuresFound, outcome, turns, actionLog, floorProgress } = input;
+  if (!isCount(batchId) || batchId === 0) fail("batchId", "a DungeonGenFHE batch id");
+  if (!isCount(timestamp)) fail("timestamp", "a time in seconds");
+  if (typeof owner !== "string" || !ethers.isAddress(owner)) fail("owner", "an address");
+  if (!isText(dungeonName, MAX_DUNGEON_NAME_LENGTH)) fail("dungeonName", `a name of at most ${MAX_DUNGEON_NAME_LENGTH} characters`);
+  if (status !== "generating" && status !== "completed") fail("status", `"generating" or "completed"`);
+  if (!isCount(generatorVersion) || generatorVersion === 0) fail("generatorVersion", "a generator version");
+  if (!isCount(partySize) || partySize < MIN_PARTY_SIZE || partySize > MAX_PARTY_SIZE) fail("partySize", `${MIN_PARTY_SIZE}-${MAX_PARTY_SIZE}`);
+  if (!Array.isArray(party) || party.length > (partySize as number)) fail("party", "a list no longer than partySize");
+  if (!(party as unknown[]).every(isPartyMember)) fail("party", "named characters of a known class");
+  const members = (party as StoredDungeonRecord["party"]).map(({ name, characterClass }) => ({ name, characterClass }));
+  if (!isCount(monstersDefeated)) fail("monstersDefeated", "a count");
+  if (!isCount(treasuresFound)) fail("treasuresFound", "a count");
+  if (!Array.isArray(floorProgress)) fail("floorProgress", "a list");
+  if (!(floorProgress as unknown[]).every(isFloorSummary)) fail("floorProgress", "per-floor counts");
+  const floors = (floorProgress as FloorSummary[]).map(({ roomsVisited, monstersDefeated, treasuresFound }) => ({ roomsVisited, monstersDefeated, treasuresFound }));
+
+  // Runs are recorded with outcome and turns together; the action log only exists since runs became replayable,
+  // and dungeons completed before runs were recorded at all carry none of the three
+  if (outcome === null) {
+    if (turns !== null || actionLog !== null) throw new Error("turns and actionLog need an outcome");
+  } else {
+    if (status !== "completed") fail("status", `"completed" once an outcome is recorded`);
+    if (!OUTCOMES.includes(outcome as ExplorationOutcome)) fail("outcome", OUTCOMES.join(", "));
+    if (!isCount(turns)) fail("turns", "a count");
+    if (actionLog !== null && typeof actionLog !== "string") fail("actionLog", "an encoded action log");
+  }
+
+  return {
+    schema: DUNGEON_RECORD_SCHEMA,
+    batchId: batchId as number,
+    timestamp: timestamp as number,
+    owner: ethers.getAddress(owner as string),
+    dungeonName: dungeonName as string,
+    status: status as DungeonRecordStatus,
+    generatorVersion: generatorVersion as number,
+    partySize: partySize as number,
+    party: members,
+    monstersDefeated: monstersDefeated as number,
+    treasuresFound: treasuresFound as number,
+    outcome: outcome as ExplorationOutcome | null,
+    turns: turns as number | null,
+    actionLog: actionLog as string | null,
+    floorProgress: floors
+  };
+}
+
+export function migrateDungeonRecord(input: unknown): DecodedDungeonRecord {
+  if (!isObject(input)) throw new Error("Record is not a JSON object");
+  let record = input;
+  const writtenSchema = record.schema === undefined ? 0 : record.schema;
+  if (!isCount(writtenSchema)) throw new Error(`Unknown record schema ${describe(record.schema)}`);
+  if (writtenSchema > DUNGEON_RECORD_SCHEMA) {
+    throw new Error(`Record schema ${writtenSchema} is newer than this app (${DUNGEON_RECORD_SCHEMA}), please update`);
+  }
+  for (let schema = writtenSchema; schema < DUNGEON_RECORD_SCHEMA; schema++) record = MIGRATIONS[schema](record);
+  const { signature } = record;
+  // Unsigned records are only accepted from before signatures; from schema 2 on every write is signed
+  if (signature !== null || writtenSchema >= 2) {
+    if (typeof signature !== "string" || !ethers.isHexString(signature, 65)) {
+      throw new Error(`signature must be a 65-byte signature, got ${describe(signature)}`);
+    }
+  }
+  return { record: validate(record), signature: signature as string | null, writtenSchema };
+}
+
+// The record as its owner signed it: signatures from before schema 3 cover the generator number of their time
+export function signedRecord({ record, writtenSchema }: DecodedDungeonRecord): StoredDungeonRecord {
+  return writtenSchema < 3 ? { ...record, generatorVersion: renumberGenerator(record.generatorVersion) as number } : record;
+}
+
+export function decodeDungeonRecord(data: ethers.BytesLike): DecodedDungeonRecord {
+  const bytes = ethers.getBytes(data);
+  if (bytes.length === 0) throw new Error("Record is empty");
+  if (bytes.length > MAX_RECORD_BYTES) throw new Error(`Record is ${bytes.length} bytes, more than ${MAX_RECORD_BYTES}`);
+  if (isBinaryRecord(bytes)) return migrateDungeonRecord(decodeBinaryRecord(bytes));
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e) {
+    throw new Error("Record is neither a binary record nor valid UTF-8 JSON");
+  }
+  return migrateDungeonRecord(parsed);
+}
+
+// Validates before writing, so this app never stores a record it would reject on read.
+// The signature comes from signDungeonRecord over the same record.
+export function encodeDungeonRecord(record: Omit<StoredDungeonRecord, "schema">, signature: string): Uint8Array {
+  if (!ethers.isHexString(signature, 65)) throw new Error("Record signature must be 65 bytes");
+  const valid = validate({ ...record, schema: DUNGEON_RECORD_SCHEMA });
+  const bytes = encodeBinaryRecord({ ...valid, signature });
+  if (bytes.length > MAX_RECORD_BYTES) throw new Error(`Record is ${bytes.length} bytes, more than ${MAX_RECORD_BYTES}`);
+  return bytes;
+}
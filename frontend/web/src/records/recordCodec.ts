@@ -0,0 +1,253 @@
+// records/recordCodec.ts
+// Compact binary form of dungeon records, written instead of JSON to cut the
+// calldata and storage that setData pays for. Owner, timestamp and signature
+// are fixed width, counts and lengths are unsigned LEB128 varints, status and
+// outcome share one flags byte, and the action log packs one varint per
+// action. The reader only turns bytes back into fields; migration and
+// validation stay in dungeonRecord.ts, the same as for JSON records.
+import { ethers } from "ethers";
+
+// No JSON record starts with this byte, so the first byte tells the formats apart
+export const BINARY_RECORD_MAGIC = 0xd6;
+
+// Positions in these tables are part of the stored format: only ever append
+const CLASS_CODES = ["warrior", "rogue", "mage", "cleric"];
+const OUTCOME_CODES = [null, "victory", "retreat", "wipe"];
+// Action codes of encodeActions in game/exploration.ts; a move stores its room id instead
+const ACTION_LOG_CODES = ["a", "x", "s", "q", "d", "u", "r", "f", "h"];
+
+const FLAG_COMPLETED = 1;
+const OUTCOME_SHIFT = 1;
+const OUTCOME_MASK = 0b110;
+const FLAG_ACTION_LOG = 1 << 3;
+const FLAG_SIGNED = 1 << 4;
+const KNOWN_FLAGS = 0b11111;
+
+const ADDRESS_BYTES = 20;
+const TIMESTAMP_BYTES = 5;
+const SIGNATURE_BYTES = 65;
+
+// Record schemas with a binary layout. Schema 3 only renumbered generators, so it keeps the
+// layout of 2; a schema that changes the layout adds its own
+const BINARY_SCHEMA = 3;
+const READABLE_SCHEMAS = [2, 3];
+
+export const isBinaryRecord = (bytes: Uint8Array) => bytes.length > 0 && bytes[0] === BINARY_RECORD_MAGIC;
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value);
+  }
+
+  fixed(value: Uint8Array) {
+    for (const byte of value) this.bytes.push(byte);
+  }
+
+  uint(value: number, width: number) {
+    if (!Number.isSafeInteger(value) || value < 0 || value >= 2 ** (8 * width)) throw new Error(`Cannot encode ${value} in ${width} bytes`);
+    for (let i = width - 1; i >= 0; i--) this.bytes.push(Math.floor(value / 2 ** (8 * i)) % 256);
+  }
+
+  // Plain division instead of shifts, which would truncate to 32 bits
+  varint(value: number) {
+    if (!Number.isSafeInteger(value) || value < 0) throw new Error(`Cannot encode ${value} as a varint`);
+    while (value >= 0x80) {
+      this.bytes.push((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.bytes.push(value);
+  }
+
+  text(value: string) {
+    const encoded = ethers.toUtf8Bytes(value);
+    this.varint(encoded.length);
+    this.fixed(encoded);
+  }
+
+  finish() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  private take(length: number) {
+    if (this.offset + length > this.bytes.length) throw new Error("Binary record is truncated");
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  byte() {
+    return this.take(1)[0];
+  }
+
+  fixed(length: number) {
+    return this.take(length);
+  }
+
+  uint(width: number) {
+    return this.take(width).reduce((value, byte) => value * 256 + byte, 0);
+  }
+
+  varint() {
+    let value = 0;
+    for (let scale = 1; ; scale *= 0x80) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (!Number.isSafeInteger(value)) throw new Error("Binary record has an oversized varint");
+      if (byte < 0x80) return value;
+    }
+  }
+
+  text() {
+    return ethers.toUtf8String(this.take(this.varint()));
+  }
+
+  end() {
+    if (this.offset !== this.bytes.length) throw new Error(`Binary record has ${this.bytes.length - this.offset} trailing bytes`);
+  }
+}
+
+const codeIndex = (table: (string | null)[], value: string | null, what: string) => {
+  const index = table.indexOf(value);
+  if (index < 0) throw new Error(`Cannot encode ${what} ${JSON.stringify(value)}`);
+  return index;
+};
+
+// The signature covers the log as text, so anything but the exact form encodeActions writes
+// (single spaces, no leading zeros) is refused rather than normalised
+const packActionLog = (writer: ByteWriter, actionLog: string) => {
+  const codes = actionLog === "" ? [] : actionLog.split(" ");
+  writer.varint(codes.length);
+  for (const code of codes) {
+    if (/^m(0|[1-9]\d*)$/.test(code)) writer.varint(Number(code.slice(1)) * 2);
+    else writer.varint(codeIndex(ACTION_LOG_CODES, code, "action code") * 2 + 1);
+  }
+};
+
+const unpackActionLog = (reader: ByteReader) => {
+  const codes: string[] = [];
+  for (let count = reader.varint(); count > 0; count--) {
+    const token = reader.varint();
+    if (token % 2 === 0) {
+      codes.push(`m${token / 2}`);
+    } else {
+      const code = ACTION_LOG_CODES[(token - 1) / 2];
+      if (code === undefined) throw new Error(`Binary record has unknown action code ${(token - 1) / 2}`);
+      codes.push(code);
+    }
+  }
+  return codes.join(" ");
+};
+
+// Fields as validate() in dungeonRecord.ts expects them; encoding assumes they already passed it
+export interface BinaryRecordFields {
+  batchId: number;
+  timestamp: number;
+  owner: string;
+  dungeonName: string;
+  status: string;
+  generatorVersion: number;
+  partySize: number;
+  party: { name: string; characterClass: string }[];
+  monstersDefeated: number;
+  treasuresFound: number;
+  outcome: string | null;
+  turns: number | null;
+  actionLog: string | null;
+  floorProgress: { roomsVisited: number; monstersDefeated: number; treasuresFound: number }[];
+  signature: string | null;
+}
+
+export function encodeBinaryRecord(fields: BinaryRecordFields): Uint8Array {
+  const writer = new ByteWriter();
+  writer.byte(BINARY_RECORD_MAGIC);
+  writer.byte(BINARY_SCHEMA);
+  writer.byte(
+    (fields.status === "completed" ? FLAG_COMPLETED : 0)
+    | (codeIndex(OUTCOME_CODES, fields.outcome, "outcome") << OUTCOME_SHIFT)
+    | (fields.actionLog !== null ? FLAG_ACTION_LOG : 0)
+    | (fields.signature !== null ? FLAG_SIGNED : 0)
+  );
+  writer.fixed(ethers.getBytes(fields.owner));
+  writer.uint(fields.timestamp, TIMESTAMP_BYTES);
+  writer.varint(fields.batchId);
+  writer.varint(fields.generatorVersion);
+  writer.byte(fields.partySize);
+  writer.text(fields.dungeonName);
+  writer.byte(fields.party.length);
+  for (const member of fields.party) {
+    writer.byte(codeIndex(CLASS_CODES, member.characterClass, "character class"));
+    writer.text(member.name);
+  }
+  writer.varint(fields.monstersDefeated);
+  writer.varint(fields.treasuresFound);
+  if (fields.outcome !== null) writer.varint(fields.turns ?? 0);
+  if (fields.actionLog !== null) packActionLog(writer, fields.actionLog);
+  writer.varint(fields.floorProgress.length);
+  for (const floor of fields.floorProgress) {
+    writer.varint(floor.roomsVisited);
+    writer.varint(floor.monstersDefeated);
+    writer.varint(floor.treasuresFound);
+  }
+  if (fields.signature !== null) writer.fixed(ethers.getBytes(fields.signature));
+  return writer.finish();
+}
+
+// Returns the fields with their schema, or throws when the bytes are not a binary record
+export function decodeBinaryRecord(bytes: Uint8Array): BinaryRecordFields & { schema: number } {
+  const reader = new ByteReader(bytes);
+  if (reader.byte() !== BINARY_RECORD_MAGIC) throw new Error("Not a binary record");
+  const schema = reader.byte();
+  if (!READABLE_SCHEMAS.includes(schema)) throw new Error(`Binary record schema ${schema} is not supported by this app, please update`);
+  const flags = reader.byte();
+  if (flags & ~KNOWN_FLAGS) throw new Error(`Binary record has unknown flags ${flags}`);
+  const outcome = OUTCOME_CODES[(flags & OUTCOME_MASK) >> OUTCOME_SHIFT];
+  const owner = ethers.getAddress(ethers.hexlify(reader.fixed(ADDRESS_BYTES)));
+  const timestamp = reader.uint(TIMESTAMP_BYTES);
+  const batchId = reader.varint();
+  const generatorVersion = reader.varint();
+  const partySize = reader.byte();
+  const dungeonName = reader.text();
+  const party: BinaryRecordFields["party"] = [];
+  for (let count = reader.byte(); count > 0; count--) {
+    const classIndex = reader.byte();
+    const characterClass = CLASS_CODES[classIndex];
+    if (characterClass === undefined) throw new Error(`Binary record has unknown character class ${classIndex}`);
+    party.push({ characterClass, name: reader.text() });
+  }
+  const monstersDefeated = reader.varint();
+  const treasuresFound = reader.varint();
+  const turns = outcome !== null ? reader.varint() : null;
+  const actionLog = flags & FLAG_ACTION_LOG ? unpackActionLog(reader) : null;
+  const floorProgress: BinaryRecordFields["floorProgress"] = [];
+  for (let count = reader.varint(); count > 0; count--) {
+    floorProgress.push({ roomsVisited: reader.varint(), monstersDefeated: reader.varint(), treasuresFound: reader.varint() });
+  }
+  const signature = flags & FLAG_SIGNED ? ethers.hexlify(reader.fixed(SIGNATURE_BYTES)) : null;
+  reader.end();
+  return {
+    schema,
+    batchId,
+    timestamp,
+    owner,
+    dungeonName,
+    status: flags & FLAG_COMPLETED ? "completed" : "generating",
+    generatorVersion,
+    partySize,
+    party,
+    monstersDefeated,
+    treasuresFound,
+    outcome,
+    turns,
+    actionLog,
+    floorProgress,
+    signature
+  };
+}
@@ -0,0 +1,77 @@
+// records/recordOwnership.ts
+// A signature shows who wrote a record, not whose key it was written to:
+// anyone can sign a record naming themselves as owner and store it under
+// someone else's dungeon id, or write the owner's own older signed record
+// back. Nor can the first write decide, since the dungeon id is public in the
+// pending setData and can be written first by anyone watching. A record key
+// therefore belongs to the dungeon's creator, the provider that submitted its
+// party, which happens before the record is written. Only dungeons with no
+// indexed submission fall back to the key's first writer. Writes by anyone
+// else are ignored, and when the owner's newest write does not check out,
+// their previous one is used instead. Unsigned records from before signatures
+// only count while nothing has been written over them.
+import { ethers } from "ethers";
+import { DecodedDungeonRecord, decodeDungeonRecord } from "./dungeonRecord";
+
+export interface RecordWrite {
+  /** DataStored sender, null for a value read from the contract with no indexed write */
+  sender: string | null;
+  value: string;
+}
+
+export interface RejectedWrite {
+  reason: string;
+  /** Well-formed, but not written and signed by the key's owner */
+  tampered: boolean;
+}
+
+export type ResolvedRecord = { decoded: DecodedDungeonRecord; rejected?: undefined } | { rejected: RejectedWrite };
+
+// checkRecordAuthor, or authorChecks.check which caches its verdicts
+export type AuthorCheck = (dungeonId: string, value: string, decoded: DecodedDungeonRecord, sender: string | null) => string | null;
+
+// The dungeon's creator from dungeonCreator, or the key's first writer for a dungeon without one
+export const keyOwner = (writes: RecordWrite[], creator: string | null) => creator ?? writes[0]?.sender ?? null;
+
+// Writes by the key's owner, the only ones that count; a value read from the contract has no sender to rule it out
+export const ownerWrites = <W extends RecordWrite>(writes: W[], creator: string | null): W[] => {
+  const owner = keyOwner(writes, creator);
+  return writes.filter(write => write.sender === null || write.sender === owner);
+};
+
+/**
+ * The record a key's writes stand for, given oldest first. Null when the owner's newest write
+ * emptied the key. A rejection carries the reason the owner's newest write failed.
+ */
+export function resolveRecord(dungeonId: string, writes: RecordWrite[], check: AuthorCheck, creator: string | null): ResolvedRecord | null {
+  if (writes.length === 0) return null;
+  const owner = keyOwner(writes, creator);
+  const last = writes.length - 1;
+  let rejected: RejectedWrite | null = null;
+  for (let index = last; index >= 0; index--) {
+    const { sender, value } = writes[index];
+    if (sender !== null && sender !== owner) continue;
+    // An emptied key ends the record; nothing written before it comes back
+    if (ethers.dataLength(value) === 0) {
+      if (rejected === null) return null;
+      break;
+    }
+    let decoded: DecodedDungeonRecord;
+    try {
+      decoded = decodeDungeonRecord(value);
+    } catch (e: any) {
+      rejected ??= { reason: e.message, tampered: false };
+      continue;
+    }
+    // The author check ties signer, sender and named owner together; the creator must be that owner too,
+    // which only a value read from the contract, with no sender, can get wrong
+    const reason = decoded.signature === null && index < last
+      ? "Unsigned record has been written over since"
+      : check(dungeonId, value, decoded, sender) ?? (creator !== null && decoded.record.owner !== creator
+        ? `Names ${decoded.record.owner} as owner, but the party was submitted by ${creator}`
+        : null);
+    if (reason === null) return { decoded };
+    rejected ??= { reason, tampered: true };
+  }
+  return { rejected: rejected ?? { reason: `Never written by ${owner}, who submitted the party`, tampered: true } };
+}
@@ -0,0 +1,108 @@
+// records/recordSignature.ts
+// EIP-712 signatures over dungeon records. UniversalAdapter.setData accepts any
+// key from any address, so a record only counts when its owner signed exactly
+// these contents for exactly this key, and the DataStored event shows the owner
+// wrote it. The domain binds the signature to the chain and the adapter, and
+// the dungeon id binds it to one key, so a signed record cannot be copied to
+// another dungeon.
+import { ethers } from "ethers";
+import { DecodedDungeonRecord, StoredDungeonRecord, signedRecord } from "./dungeonRecord";
+
+export const RECORD_DOMAIN_NAME = "DungeonGen Records";
+export const RECORD_DOMAIN_VERSION = "1";
+
+export const RECORD_TYPES: Record<string, ethers.TypedDataField[]> = {
+  DungeonRecord: [
+    { name: "dungeonId", type: "string" },
+    { name: "batchId", type: "uint256" },
+    { name: "timestamp", type: "uint256" },
+    { name: "owner", type: "address" },
+    { name: "dungeonName", type: "string" },
+    { name: "status", type: "string" },
+    { name: "generatorVersion", type: "uint256" },
+    { name: "partySize", type: "uint256" },
+    { name: "party", type: "PartyMember[]" },
+    { name: "monstersDefeated", type: "uint256" },
+    { name: "treasuresFound", type: "uint256" },
+    { name: "outcome", type: "string" },
+    { name: "turns", type: "uint256" },
+    { name: "actionLog", type: "string" },
+    { name: "floorProgress", type: "FloorSummary[]" }
+  ],
+  PartyMember: [
+    { name: "name", type: "string" },
+    { name: "characterClass", type: "string" }
+  ],
+  FloorSummary: [
+    { name: "roomsVisited", type: "uint256" },
+    { name: "monstersDefeated", type: "uint256" },
+    { name: "treasuresFound", type: "uint256" }
+  ]
+};
+
+export const recordDomain = (chainId: number, adapterAddress: string): ethers.TypedDataDomain => ({
+  name: RECORD_DOMAIN_NAME,
+  version: RECORD_DOMAIN_VERSION,
+  chainId,
+  verifyingContract: adapterAddress
+});
+
+// EIP-712 has no null, so an unrecorded run signs as an empty outcome with zero turns
+const recordMessage = (dungeonId: string, record: Omit<StoredDungeonRecord, "schema">) => ({
+  dungeonId,
+  batchId: record.batchId,
+  timestamp: record.timestamp,
+  owner: record.owner,
+  dungeonName: record.dungeonName,
+  status: record.status,
+  generatorVersion: record.generatorVersion,
+  partySize: record.partySize,
+  party: record.party,
+  monstersDefeated: record.monstersDefeated,
+  treasuresFound: record.treasuresFound,
+  outcome: record.outcome ?? "",
+  turns: record.turns ?? 0,
+  actionLog: record.actionLog ?? "",
+  floorProgress: record.floorProgress
+});
+
+export function signDungeonRecord(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  dungeonId: string,
+  record: Omit<StoredDungeonRecord, "schema">
+): Promise<string> {
+  return signer.signTypedData(domain, RECORD_TYPES, recordMessage(dungeonId, record));
+}
+
+export function recoverRecordSigner(domain: ethers.TypedDataDomain, dungeonId: string, record: StoredDungeonRecord, signature: string): string {
+  return ethers.verifyTypedData(domain, RECORD_TYPES, recordMessage(dungeonId, record), signature);
+}
+
+/**
+ * Returns why the record cannot be trusted as written by its owner, or null when it can.
+ * `sender` is the DataStored sender of the write being checked, null when the indexer has not seen it.
+ * Records from before signatures only pass when the indexed write came from the owner.
+ */
+export function checkRecordAuthor(
+  domain: ethers.TypedDataDomain,
+  dungeonId: string,
+  decoded: DecodedDungeonRecord,
+  sender: string | null
+): string | null {
+  const { record, signature } = decoded;
+  const owner = record.owner;
+  if (signature === null) {
+    if (sender === null) return "Unsigned record with no indexed write to show who stored it";
+    return sender === owner ? null : `Unsigned record written by ${sender}, not the owner ${owner}`;
+  }
+  let signer: string;
+  try {
+    signer = recoverRecordSigner(domain, dungeonId, signedRecord(decoded), signature);
+  } catch (e) {
+    return "Signature is malformed";
+  }
+  if (signer !== owner) return `Signed by ${signer}, not the owner ${owner}`;
+  if (sender !== null && sender !== signer) return `Written by ${sender}, not the signer ${signer}`;
+  return null;
+}
@@ -0,0 +1,218 @@
+// rpcPool.ts
+// Read-only RPC access through a pool of endpoints per chain. Every endpoint is
+// probed with eth_blockNumber in the background and ranked by latency, lagging
+// or failing endpoints drop to the back, and a request that fails on the
+// current endpoint is retried on the next one. Callers hold one provider for
+// the whole session while the pool swaps endpoints underneath it.
+import { ethers } from "ethers";
+
+export interface ProviderPoolOptions {
+  chainId: number;
+  urls: string[];
+  /** Milliseconds between background health checks */
+  healthCheckInterval?: number;
+  /** Milliseconds an eth_blockNumber probe may take before the endpoint counts as down */
+  probeTimeout?: number;
+  /** Milliseconds any other request may take before failing over */
+  requestTimeout?: number;
+  /** Blocks an endpoint may trail the highest reported head before it counts as stale */
+  maxBlockLag?: number;
+}
+
+export interface EndpointStatus {
+  url: string;
+  healthy: boolean;
+  /** Smoothed probe latency in milliseconds, null before the first successful probe */
+  latency: number | null;
+  blockNumber: number | null;
+  lastError: string | null;
+}
+
+export interface ProviderPool {
+  /** Resolves once an endpoint is known to answer */
+  ready(): Promise<ethers.JsonRpcApiProvider>;
+  provider: ethers.JsonRpcApiProvider;
+  /** Endpoints in the order requests try them */
+  status(): EndpointStatus[];
+  /** Probes every endpoint now and re-ranks them */
+  check(): Promise<void>;
+  start(): void;
+  stop(): void;
+}
+
+interface Endpoint extends EndpointStatus {
+  rpc: ethers.JsonRpcProvider;
+}
+
+const DEFAULT_HEALTH_CHECK_INTERVAL = 30000;
+const DEFAULT_PROBE_TIMEOUT = 4000;
+const DEFAULT_REQUEST_TIMEOUT = 20000;
+const DEFAULT_MAX_BLOCK_LAG = 5;
+// Weight of the newest probe in the smoothed latency
+const LATENCY_SMOOTHING = 0.3;
+
+// Public endpoints without API keys; keyed endpoints belong in the environment, not in the source
+export const DEFAULT_RPC_URLS: Record<number, string[]> = {
+  1: [
+    "https://ethereum-rpc.publicnode.com",
+    "https://eth.drpc.org",
+    "https://cloudflare-eth.com"
+  ],
+  11155111: [
+    "https://ethereum-sepolia-rpc.publicnode.com",
+    "https://sepolia.drpc.org",
+    "https://eth-sepolia.public.blastapi.io"
+  ],
+  31337: ["http://127.0.0.1:8545"]
+};
+
+const SELECTED_KEY = (chainId: number) => `rpc_pool_selected_${chainId}`;
+
+const session = () => (typeof sessionStorage === "undefined" ? null : sessionStorage);
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new Error(message)), ms); });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Pool order: healthy before unhealthy, then fastest first; never-probed endpoints keep their configured order
+const rank = (endpoints: Endpoint[]) => [...endpoints].sort((a, b) =>
+  Number(b.healthy) - Number(a.healthy)
+  || (a.latency ?? Number.MAX_SAFE_INTEGER) - (b.latency ?? Number.MAX_SAFE_INTEGER)
+);
+
+class PooledProvider extends ethers.JsonRpcApiProvider {
+  constructor(network: ethers.Network, private readonly route: (payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) => Promise<Array<ethers.JsonRpcResult>>) {
+    super(network, { staticNetwork: network });
+  }
+
+  _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult>> {
+    return this.route(payload);
+  }
+}
+
+export function createProviderPool(options: ProviderPoolOptions): ProviderPool {
+  const { chainId } = options;
+  const healthCheckInterval = options.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL;
+  const probeTimeout = options.probeTimeout ?? DEFAULT_PROBE_TIMEOUT;
+  const requestTimeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+  const maxBlockLag = options.maxBlockLag ?? DEFAULT_MAX_BLOCK_LAG;
+  const urls = [...new Set(options.urls.filter(Boolean))];
+  if (urls.length === 0) throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+
+  const network = ethers.Network.from(chainId);
+  const makeEndpoint = (url: string): Endpoint => {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = requestTimeout;
+    return {
+      url,
+      rpc: new ethers.JsonRpcProvider(request, network, { staticNetwork: network }),
+      healthy: true,
+      latency: null,
+      blockNumber: null,
+      lastError: null
+    };
+  };
+
+  // The endpoint picked earlier in this session goes first until the first health check ranks them
+  const selected = session()?.getItem(SELECTED_KEY(chainId));
+  let endpoints = urls.map(makeEndpoint);
+  if (selected && urls.includes(selected)) {
+    endpoints = [...endpoints.filter(e => e.url === selected), ...endpoints.filter(e => e.url !== selected)];
+  }
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let checking: Promise<void> | null = null;
+  let readyPromise: Promise<ethers.JsonRpcApiProvider> | null = null;
+
+  const remember = () => {
+    const current = endpoints.find(e => e.healthy);
+    if (current) session()?.setItem(SELECTED_KEY(chainId), current.url);
+  };
+
+  const markFailed = (endpoint: Endpoint, error: unknown) => {
+    endpoint.healthy = false;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    endpoints = rank(endpoints);
+    remember();
+  };
+
+  const probe = async (endpoint: Endpoint) => {
+    const started = Date.now();
+    try {
+      const blockNumber = await withTimeout(endpoint.rpc.getBlockNumber(), probeTimeout, `RPC probe timed out after ${probeTimeout}ms`);
+      const latency = Date.now() - started;
+      endpoint.latency = endpoint.latency === null ? latency : Math.round(endpoint.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING);
+      endpoint.blockNumber = blockNumber;
+      endpoint.healthy = true;
+      endpoint.lastError = null;
+    } catch (e) {
+      endpoint.healthy = false;
+      endpoint.lastError = e instanceof Error ? e.message : String(e);
+    }
+  };
+
+  const check = () => {
+    if (!checking) {
+      checking = Promise.all(endpoints.map(probe)).then(() => {
+        const head = Math.max(...endpoints.map(e => e.blockNumber ?? 0));
+        for (const endpoint of endpoints) {
+          if (endpoint.healthy && endpoint.blockNumber !== null && head - endpoint.blockNumber > maxBlockLag) {
+            endpoint.healthy = false;
+            endpoint.lastError = `${head - endpoint.blockNumber} blocks behind`;
+          }
+        }
+        endpoints = rank(endpoints);
+        remember();
+      }).finally(() => { checking = null; });
+    }
+    return checking;
+  };
+
+  // JSON-RPC errors such as reverts come back as results and are final; only transport failures move on
+  const route = async (payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) => {
+    let lastError: unknown = null;
+    for (const endpoint of [...endpoints]) {
+      try {
+        return await endpoint.rpc._send(payload);
+      } catch (e) {
+        lastError = e;
+        console.warn(`RPC ${endpoint.url} failed, trying the next endpoint:`, e);
+        markFailed(endpoint, e);
+      }
+    }
+    throw lastError ?? new Error(`All RPC endpoints failed for chain ${chainId}`);
+  };
+
+  const provider = new PooledProvider(network, route);
+
+  return {
+    provider,
+    ready: () => {
+      if (!readyPromise) {
+        // The first endpoint to answer is enough to start; the full ranking finishes in the background
+        readyPromise = Promise.any(endpoints.map(async endpoint => {
+          await withTimeout(endpoint.rpc.getBlockNumber(), probeTimeout, `RPC probe timed out after ${probeTimeout}ms`);
+          return endpoint;
+        })).then(() => {
+          check().catch(e => console.error("RPC health check failed:", e));
+          return provider as ethers.JsonRpcApiProvider;
+        }, () => {
+          readyPromise = null;
+          throw new Error(`All RPC endpoints failed for chain ${chainId}`);
+        });
+      }
+      return readyPromise;
+    },
+    status: () => endpoints.map(({ rpc, ...status }) => ({ ...status })),
+    check,
+    start: () => {
+      if (timer) return;
+      timer = setInterval(() => { check().catch(e => console.error("RPC health check failed:", e)); }, healthCheckInterval);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    }
+  };
+}
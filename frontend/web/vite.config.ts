@@ -3,6 +3,10 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // The typechain factories in ../../types import ethers from the root node_modules
+    dedupe: ["ethers"]
+  },
   define: {
     'process.env': process.env
   },
@@ -0,0 +1,106 @@
+// tasks/dungeonKeys.ts
+// Rebuilds the shared "dungeon_keys" list from UniversalAdapter history. Every
+// dungeon record write emits DataStored, so ids dropped from the list by a lost
+// update can be recovered from the logs. DungeonGenFHE party submissions are
+// scanned too, since they decide whose writes to a record key count.
+//
+//   npx hardhat dungeon-keys:repair --network sepolia            # report only
+//   npx hardhat dungeon-keys:repair --network sepolia --write    # write the merged list
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { task, types } from "hardhat/config";
+import { InterfaceAbi, Wallet, ZeroAddress } from "ethers";
+import { createEventIndexer } from "../frontend/web/src/indexer/indexer";
+import { createMemoryStore } from "../frontend/web/src/indexer/store";
+import { dataWrites } from "../frontend/web/src/indexer/events";
+import { ownerWrites } from "../frontend/web/src/records/recordOwnership";
+import {
+  LEGACY_KEYS_KEY,
+  dungeonCreator,
+  dungeonIdsFromEvents,
+  encodeKeyList,
+  keyListsFromEvents,
+  mergeKeyLists,
+  parseKeyList,
+  partyCreators,
+  recordKey
+} from "../frontend/web/src/indexer/dungeonKeys";
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import { DungeonGenFHE__factory } from "../types";
+
+const FRONTEND_CONFIG = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+async function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise<string>((resolve) =>
+    rl.question(prompt, (ans) => {
+      rl.close();
+      resolve(ans.trim());
+    })
+  );
+}
+
+task("dungeon-keys:repair", "Rebuilds dungeon_keys from DataStored events")
+  .addOptionalParam("adapter", "UniversalAdapter address (defaults to the frontend config)")
+  .addOptionalParam("dungeonGen", "DungeonGenFHE address (defaults to the frontend config)")
+  .addOptionalParam("fromBlock", "First block to scan (defaults to deployBlock in the frontend config)", undefined, types.int)
+  .addOptionalParam("chunkSize", "Blocks per getLogs call", 2000, types.int)
+  .addFlag("write", "Write the repaired list instead of only reporting it")
+  .setAction(async (args, hre) => {
+    const frontendConfig = JSON.parse(fs.readFileSync(FRONTEND_CONFIG, "utf-8"));
+    const adapterAddress: string = args.adapter ?? frontendConfig.contractAddress;
+    const dungeonGenAddress: string = args.dungeonGen ?? frontendConfig.dungeonGenAddress ?? ZeroAddress;
+    const startBlock: number = args.fromBlock ?? frontendConfig.deployBlock ?? 0;
+    const abi: InterfaceAbi = adapterArtifact.abi;
+    const provider = hre.ethers.provider;
+
+    // Without a DungeonGenFHE deployment every key falls back to its first writer
+    const addresses = dungeonGenAddress === ZeroAddress ? [adapterAddress] : [adapterAddress, dungeonGenAddress];
+    console.log(`Scanning ${addresses.join(", ")} from block ${startBlock}...`);
+    const indexer = createEventIndexer({
+      provider,
+      addresses,
+      abis: [abi, DungeonGenFHE__factory.abi],
+      store: createMemoryStore(),
+      startBlock,
+      chunkSize: args.chunkSize
+    });
+    await indexer.sync();
+    const events = await indexer.store.query({ names: ["DataStored"] });
+    const creators = partyCreators(await indexer.store.query({ names: ["PartyAttributesSubmitted"] }));
+
+    const adapter = new hre.ethers.Contract(adapterAddress, abi, provider);
+    const current = parseKeyList(await adapter.getData(LEGACY_KEYS_KEY));
+    const records = dataWrites(events);
+    const latestValue = (id: string) => {
+      const writes = ownerWrites(records.get(recordKey(id)) ?? [], dungeonCreator(creators, id));
+      return writes.length > 0 ? writes[writes.length - 1].value : "0x";
+    };
+
+    // Ids whose owner emptied the record were deleted on purpose and stay out; nobody else can delete one
+    const recovered = mergeKeyLists(dungeonIdsFromEvents(events), ...keyListsFromEvents(events))
+      .filter((id) => latestValue(id) !== "0x");
+    const repaired = mergeKeyLists(current, recovered);
+    const missing = repaired.filter((id) => !current.includes(id));
+
+    console.log(`${events.length} DataStored events, ${current.length} ids in ${LEGACY_KEYS_KEY}, ${recovered.length} ids in history`);
+    if (missing.length === 0) {
+      console.log(`${LEGACY_KEYS_KEY} is complete, nothing to repair.`);
+      return;
+    }
+    console.log(`Missing from ${LEGACY_KEYS_KEY}:`);
+    for (const id of missing) console.log(`  ${id}`);
+
+    if (!args.write) {
+      console.log("Dry run: re-run with --write to store the repaired list.");
+      return;
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const writer = signer ?? new Wallet(await ask("Enter the private key to send the repair from: "), provider);
+    const tx = await adapter.connect(writer).getFunction("setData")(LEGACY_KEYS_KEY, encodeKeyList(repaired));
+    console.log(`Writing ${repaired.length} ids in ${tx.hash}...`);
+    await tx.wait();
+    console.log(`${LEGACY_KEYS_KEY} repaired.`);
+  });
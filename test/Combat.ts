@@ -0,0 +1,124 @@
+// test/Combat.ts
+// One combat round at a time, with every roll scripted: the test names the
+// initiative, damage and dodge rolls the round will see, so who acts first,
+// what each blow does and when a side stops acting are checked exactly.
+import { expect } from "chai";
+import type { Rng } from "../frontend/web/src/game/prng";
+import {
+  CombatantState,
+  SPELL_COST,
+  canCast,
+  monsterStats,
+  monsterVolley,
+  partyStats,
+  resolveRound
+} from "../frontend/web/src/game/combat";
+
+// maxHp 110, maxMana 12, attack 7 + 0-5, armor 4, dodge 0.25, initiative +10, spellPower 6
+const PARTY = { strength: 40, agility: 100, intelligence: 48 };
+const ORC = monsterStats(2, false);
+const GOBLIN = monsterStats(1, false);
+
+// Hands out the given rolls in order and fails on any roll the test did not expect
+const scripted = (ints: number[], chances: boolean[] = []): Rng => {
+  const next = () => expect.fail("Unexpected raw roll");
+  return {
+    next,
+    float: next,
+    int: (min, max) => {
+      if (ints.length === 0) return expect.fail(`Unexpected roll in [${min}, ${max}]`);
+      const value = ints.shift()!;
+      expect(value, `roll in [${min}, ${max}]`).to.be.within(min, max);
+      return value;
+    },
+    chance: () => (chances.length > 0 ? chances.shift()! : expect.fail("Unexpected chance roll")),
+    pick: next,
+    shuffle: next
+  };
+};
+
+describe("Combat", function () {
+  it("derives party stats from the attribute totals", function () {
+    expect(partyStats(PARTY)).to.deep.equal({
+      maxHp: 110,
+      maxMana: 12,
+      attack: 7,
+      attackRoll: 5,
+      armor: 4,
+      dodge: 0.25,
+      initiative: 10,
+      spellPower: 6
+    });
+    expect(partyStats({ strength: 0, agility: 300, intelligence: 0 }).dodge).to.equal(0.5);
+  });
+
+  it("clamps monster tiers and makes bosses a tier block with doubled hit points", function () {
+    expect(monsterStats(0, false).name).to.equal("Goblin");
+    expect(monsterStats(9, false).name).to.equal("Demon");
+    expect(monsterStats(2, true)).to.deep.equal({ ...ORC, name: "Orc Lord", hp: ORC.hp * 2 });
+  });
+
+  it("lets the party strike first on the higher initiative and the survivors answer", function () {
+    // Initiative 10 + 10 against 5 + 6, a full damage roll, then one hit of 4 + 4 - 4 and one dodge
+    const rng = scripted([10, 5, 5, 4], [false, true]);
+    const current: CombatantState = { hp: 50, mana: 12, monsters: [14, 14] };
+    const round = resolveRound(rng, PARTY, ORC, current, { type: "attack" });
+    expect(round).to.deep.equal({
+      hp: 46,
+      mana: 12,
+      monsters: [3, 14],
+      partyFirst: true,
+      log: ["The party strikes the Orc for 11.", "Orc deals 4 damage (1 missed)."]
+    });
+    expect(current.monsters).to.deep.equal([14, 14]);
+  });
+
+  it("lets faster monsters strike first and a downed party not act", function () {
+    const rng = scripted([1, 20, 4], [false]);
+    const round = resolveRound(rng, PARTY, ORC, { hp: 4, mana: 12, monsters: [14] }, { type: "attack" });
+    expect(round).to.include({ hp: 0, partyFirst: false });
+    expect(round.monsters).to.deep.equal([14]);
+    expect(round.log).to.deep.equal(["Orc deals 4 damage."]);
+  });
+
+  it("deals at least one damage through any armor", function () {
+    const weak = { strength: 0, agility: 0, intelligence: 0 };
+    const rng = scripted([20, 1, 0, 0], [false]);
+    const round = resolveRound(rng, weak, monsterStats(6, false), { hp: 20, mana: 0, monsters: [44] }, { type: "attack" });
+    expect(round).to.include({ hp: 8 });
+    expect(round.monsters).to.deep.equal([43]);
+  });
+
+  it("burns every monster with a fireball and counts the fallen", function () {
+    // spellPower 6 + 2 against a wounded goblin and two fresh ones
+    const rng = scripted([20, 1, 2]);
+    const round = resolveRound(rng, PARTY, GOBLIN, { hp: 50, mana: 12, monsters: [8, 3, 8] }, { type: "cast", spell: "fireball" });
+    expect(round.mana).to.equal(12 - SPELL_COST.fireball);
+    expect(round.monsters).to.deep.equal([]);
+    expect(round.log).to.deep.equal(["Fireball scorches every Goblin for 8.", "3 Goblins fall."]);
+  });
+
+  it("heals up to the party's maximum hit points", function () {
+    const rng = scripted([20, 1, 3], [true]);
+    const round = resolveRound(rng, PARTY, GOBLIN, { hp: 105, mana: 12, monsters: [8] }, { type: "cast", spell: "heal" });
+    expect(round).to.include({ hp: 110, mana: 12 - SPELL_COST.heal });
+    expect(round.log).to.deep.equal(["The party heals 15 HP.", "The party dodges every Goblin blow."]);
+  });
+
+  it("refuses spells the party cannot pay for", function () {
+    const stats = partyStats(PARTY);
+    expect(canCast(stats, SPELL_COST.fireball, "fireball")).to.equal(true);
+    expect(canCast(stats, SPELL_COST.fireball - 1, "fireball")).to.equal(false);
+    expect(canCast(partyStats({ ...PARTY, intelligence: 0 }), 99, "heal")).to.equal(false);
+    expect(() => resolveRound(scripted([]), PARTY, ORC, { hp: 50, mana: 3, monsters: [14] }, { type: "cast", spell: "heal" }))
+      .to.throw("Not enough mana to cast heal");
+  });
+
+  it("has every monster in a volley swing once", function () {
+    const log: string[] = [];
+    const damage = monsterVolley(scripted([0, 4, 2], [false, false, false]), partyStats(PARTY), ORC, 3, log);
+    // 4 + roll - 4 armor each, but never less than 1
+    expect(damage).to.equal(1 + 4 + 2);
+    expect(log).to.deep.equal(["Orc deals 7 damage."]);
+  });
+});
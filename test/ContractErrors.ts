@@ -0,0 +1,119 @@
+// test/ContractErrors.ts
+// Revert decoding for DungeonGenFHE calls: the revert data is found however
+// deeply ethers and the wallet wrapped it, errors outside the contract's ABI
+// keep their raw message, and a cooldown message counts down from the
+// contract's timestamps by the chain's clock rather than the browser's.
+import { expect } from "chai";
+import type { DungeonGenFHE } from "../types";
+import { DungeonGenFHE__factory } from "../types";
+import { createErrorDescriber, decodeContractError, isUserRejection, remainingCooldown } from "../frontend/web/src/contractErrors";
+
+const ACCOUNT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const iface = DungeonGenFHE__factory.createInterface();
+const revertData = (name: string) => iface.encodeErrorResult(name, []);
+
+// Only what remainingCooldown reads: the cooldown, both per-account timestamps and the latest block
+const stubDungeonGen = (times: { cooldown: number; submission: number; decryption: number; now: number | null }) => ({
+  cooldownSeconds: async () => BigInt(times.cooldown),
+  lastSubmissionTime: async (account: string) => (account === ACCOUNT ? BigInt(times.submission) : 0n),
+  lastDecryptionRequestTime: async (account: string) => (account === ACCOUNT ? BigInt(times.decryption) : 0n),
+  runner: { provider: { getBlock: async () => (times.now === null ? null : { timestamp: times.now }) } }
+}) as unknown as DungeonGenFHE;
+
+describe("ContractErrors", function () {
+  describe("decodeContractError", function () {
+    it("takes the name ethers already decoded", function () {
+      expect(decodeContractError({ revert: { name: "Paused", args: [] } })).to.equal("Paused");
+    });
+
+    it("finds revert data however the error is wrapped", function () {
+      const data = revertData("StateMismatch");
+      const wrapped = [
+        { data },
+        { error: { data } },
+        { error: { data: { data } } },
+        { info: { error: { data } } },
+        { cause: { error: { data } } },
+        { error: { info: { error: { cause: { data } } } } }
+      ];
+      for (const e of wrapped) expect(decodeContractError(e), JSON.stringify(e)).to.equal("StateMismatch");
+    });
+
+    it("stops looking past a few levels of nesting", function () {
+      const deep = { cause: { cause: { cause: { cause: { cause: { data: revertData("Paused") } } } } } };
+      expect(decodeContractError(deep)).to.equal(null);
+    });
+
+    it("ignores reverts and values that are not DungeonGenFHE errors", function () {
+      const foreign = "0x08c379a0" + "00".repeat(64);
+      for (const e of [{ data: foreign }, { data: "0x1234" }, { revert: { name: "Error" } }, new Error("boom"), "boom", null, undefined, 42]) {
+        expect(decodeContractError(e)).to.equal(null);
+      }
+    });
+  });
+
+  it("recognises a rejection in the wallet", function () {
+    expect(isUserRejection({ code: "ACTION_REJECTED" })).to.equal(true);
+    expect(isUserRejection(new Error("MetaMask Tx Signature: user rejected transaction"))).to.equal(true);
+    expect(isUserRejection(new Error("execution reverted"))).to.equal(false);
+    expect(isUserRejection(null)).to.equal(false);
+  });
+
+  describe("remainingCooldown", function () {
+    const times = { cooldown: 60, submission: 1000, decryption: 2000, now: 1045 };
+
+    it("counts from the last submission by default", async function () {
+      expect(await remainingCooldown(stubDungeonGen(times), { account: ACCOUNT })).to.equal(15);
+    });
+
+    it("counts from the last decryption request when asked", async function () {
+      expect(await remainingCooldown(stubDungeonGen({ ...times, now: 2050 }), { account: ACCOUNT, cooldown: "decryption" })).to.equal(10);
+    });
+
+    it("goes to zero and below once the cooldown is over", async function () {
+      expect(await remainingCooldown(stubDungeonGen({ ...times, now: 1060 }), { account: ACCOUNT })).to.equal(0);
+      expect(await remainingCooldown(stubDungeonGen({ ...times, now: 1100 }), { account: ACCOUNT })).to.equal(-40);
+    });
+
+    it("needs the account", async function () {
+      expect(await remainingCooldown(stubDungeonGen(times), {})).to.equal(null);
+    });
+  });
+
+  describe("describeContractError", function () {
+    const times = { cooldown: 60, submission: 1000, decryption: 2000, now: 1045 };
+    const cooldownError = { error: { data: revertData("CooldownActive") } };
+
+    it("explains contract errors and keeps the raw message of anything else", async function () {
+      const describe = createErrorDescriber(async () => null);
+      expect(await describe({ data: revertData("BatchClosed") }, "Submit failed")).to.match(/batch is closed/);
+      expect(await describe({ shortMessage: "could not coalesce error", message: "long" }, "Submit failed"))
+        .to.equal("Submit failed: could not coalesce error");
+      expect(await describe(new Error("network down"), "Submit failed")).to.equal("Submit failed: network down");
+      expect(await describe("???", "Submit failed")).to.equal("Submit failed: Unknown error");
+      expect(await describe({ code: "ACTION_REJECTED" }, "Submit failed")).to.equal("Transaction rejected by user");
+    });
+
+    it("says how long a cooldown has left", async function () {
+      const describe = createErrorDescriber(async () => stubDungeonGen(times));
+      expect(await describe(cooldownError, "Submit failed", { account: ACCOUNT })).to.equal("Cooldown active: try again in 15s.");
+    });
+
+    it("falls back to a general cooldown message when the time left is unknown", async function () {
+      const general = "Cooldown active: wait a few seconds and try again.";
+      expect(await createErrorDescriber(async () => null)(cooldownError, "Submit failed", { account: ACCOUNT })).to.equal(general);
+      expect(await createErrorDescriber(async () => stubDungeonGen({ ...times, now: 1070 }))(cooldownError, "Submit failed", { account: ACCOUNT }))
+        .to.equal(general);
+    });
+
+    it("only reads the contract for cooldowns", async function () {
+      let reads = 0;
+      const describe = createErrorDescriber(async () => { reads++; return stubDungeonGen(times); });
+      await describe({ data: revertData("NotOwner") }, "Failed", { account: ACCOUNT });
+      expect(reads).to.equal(0);
+      await describe(cooldownError, "Failed", { account: ACCOUNT });
+      expect(reads).to.equal(1);
+    });
+  });
+});
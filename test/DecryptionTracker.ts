@@ -0,0 +1,199 @@
+// test/DecryptionTracker.ts
+// The decryption tracker over a memory store of indexed events and a stub
+// DungeonGenFHE whose myCallback reverts the way the oracle's callback would.
+// A request is fulfilled once its DecryptionCompleted is indexed; until then
+// it is probed, and only StateMismatch or InvalidBatchId fail it for good.
+import { expect } from "chai";
+import { ethers } from "ethers";
+import type { DungeonGenFHE } from "../types";
+import { DungeonGenFHE__factory } from "../types";
+import { DecryptionTracker, createDecryptionTracker } from "../frontend/web/src/decryptionTracker";
+import type { EventIndexer, IndexerChange } from "../frontend/web/src/indexer/indexer";
+import { createMemoryStore, IndexerStore } from "../frontend/web/src/indexer/store";
+import { IndexedEvent, eventId } from "../frontend/web/src/indexer/events";
+
+const DUNGEON_GEN = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const TIMEOUT_SECONDS = 300;
+
+const iface = DungeonGenFHE__factory.createInterface();
+
+const position = (blockNumber: number) => ({
+  id: eventId(blockNumber, 0),
+  address: DUNGEON_GEN,
+  blockNumber,
+  blockHash: ethers.id(`block:${blockNumber}`),
+  transactionHash: ethers.id(`tx:${blockNumber}`),
+  logIndex: 0
+});
+
+const requested = (blockNumber: number, requestId: string, batchId: number): IndexedEvent =>
+  ({ ...position(blockNumber), name: "DecryptionRequested", requestId, batchId });
+
+const completed = (blockNumber: number, requestId: string, batchId: number): IndexedEvent =>
+  ({ ...position(blockNumber), name: "DecryptionCompleted", requestId, batchId, strength: 40, agility: 30, intellect: 20, seed: 1234 });
+
+// myCallback reverts with the contract error set for a request; anything else gets as far as the
+// signature check, which the empty proof fails with an error outside DungeonGenFHE's ABI
+class StubOracle {
+  reverts = new Map<string, string>();
+  probes: string[] = [];
+  /** Block timestamps; blocks not listed were mined just now */
+  timestamps = new Map<number, number>();
+
+  dungeonGen(): DungeonGenFHE {
+    const stub = {
+      myCallback: {
+        staticCall: async (requestId: string) => {
+          this.probes.push(requestId);
+          const name = this.reverts.get(requestId);
+          throw name ? { data: iface.encodeErrorResult(name, []) } : new Error("Invalid KMS signatures");
+        }
+      },
+      runner: {
+        provider: { getBlock: async (blockNumber: number) => ({ timestamp: this.timestamps.get(blockNumber) ?? now() }) }
+      }
+    };
+    return stub as unknown as DungeonGenFHE;
+  }
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("DecryptionTracker", function () {
+  let store: IndexerStore;
+  let oracle: StubOracle;
+  let indexerListeners: Set<(change: IndexerChange) => void>;
+
+  const index = async (...events: IndexedEvent[]) => {
+    const last = Math.max(...events.map(event => event.blockNumber));
+    await store.commit(events, { blockNumber: last, blockHash: ethers.id(`block:${last}`) }, 64);
+    for (const listener of indexerListeners) listener({ added: events, removed: [], cursor: null });
+  };
+
+  const tracker = (getDungeonGen: () => Promise<DungeonGenFHE | null> = async () => oracle.dungeonGen()): DecryptionTracker => {
+    const indexer = {
+      store,
+      subscribe: (listener: (change: IndexerChange) => void) => {
+        indexerListeners.add(listener);
+        return () => { indexerListeners.delete(listener); };
+      }
+    };
+    return createDecryptionTracker({
+      indexer: indexer as unknown as EventIndexer,
+      getDungeonGen,
+      timeoutSeconds: TIMEOUT_SECONDS,
+      pollInterval: 60000
+    });
+  };
+
+  beforeEach(function () {
+    store = createMemoryStore();
+    oracle = new StubOracle();
+    indexerListeners = new Set();
+  });
+
+  it("marks a request fulfilled once its DecryptionCompleted is indexed, without probing it", async function () {
+    await index(requested(10, "1", 1), completed(12, "1", 1));
+    const decryptions = tracker();
+    await decryptions.refresh();
+
+    expect(decryptions.get("1")).to.include({ batchId: 1, status: "fulfilled", message: null });
+    expect(oracle.probes).to.deep.equal([]);
+  });
+
+  it("keeps a request pending while its callback can still succeed", async function () {
+    await index(requested(10, "1", 1));
+    const decryptions = tracker();
+    await decryptions.refresh();
+
+    expect(decryptions.get("1")).to.include({ status: "pending", message: null });
+    expect(oracle.probes).to.deep.equal(["1"]);
+  });
+
+  it("fails a request whose callback reverts with StateMismatch or InvalidBatchId and stops probing it", async function () {
+    oracle.reverts.set("1", "StateMismatch");
+    oracle.reverts.set("2", "InvalidBatchId");
+    await index(requested(10, "1", 1), requested(11, "2", 9));
+    const decryptions = tracker();
+    await decryptions.refresh();
+    await decryptions.refresh();
+
+    expect(decryptions.get("1")?.status).to.equal("failed");
+    expect(decryptions.get("1")?.message).to.match(/^StateMismatch: /);
+    expect(decryptions.get("2")?.status).to.equal("failed");
+    expect(decryptions.get("2")?.message).to.match(/^InvalidBatchId: /);
+    expect(oracle.probes).to.deep.equal(["1", "2"]);
+  });
+
+  it("keeps a replayed request pending until its DecryptionCompleted arrives", async function () {
+    oracle.reverts.set("1", "ReplayAttempt");
+    await index(requested(10, "1", 1));
+    const decryptions = tracker();
+    await decryptions.refresh();
+
+    expect(decryptions.get("1")?.status).to.equal("pending");
+    expect(decryptions.get("1")?.message).to.match(/^ReplayAttempt: /);
+
+    await index(completed(14, "1", 1));
+    await decryptions.refresh();
+    expect(decryptions.get("1")).to.include({ status: "fulfilled", message: null });
+  });
+
+  it("times out requests left pending for longer than the timeout", async function () {
+    oracle.timestamps.set(10, now() - TIMEOUT_SECONDS - 60);
+    oracle.timestamps.set(11, now() - TIMEOUT_SECONDS - 60);
+    oracle.timestamps.set(12, now() - TIMEOUT_SECONDS + 60);
+    oracle.reverts.set("2", "StateMismatch");
+    await index(requested(10, "1", 1), requested(11, "2", 2), requested(12, "3", 3));
+    const decryptions = tracker();
+    await decryptions.refresh();
+
+    expect(decryptions.get("1")?.status).to.equal("timedOut");
+    expect(decryptions.get("1")?.message).to.match(/within 5 minutes/);
+    // A known failure is reported as such however old the request is
+    expect(decryptions.get("2")?.status).to.equal("failed");
+    expect(decryptions.get("3")?.status).to.equal("pending");
+  });
+
+  it("reports the newest request of every batch", async function () {
+    oracle.reverts.set("1", "StateMismatch");
+    await index(requested(10, "1", 1), requested(11, "2", 2), requested(15, "3", 1), completed(16, "2", 2));
+    const decryptions = tracker();
+    await decryptions.refresh();
+
+    const latest = decryptions.byBatch();
+    expect([...latest.keys()]).to.have.members([1, 2]);
+    expect(latest.get(1)).to.include({ requestId: "3", status: "pending" });
+    expect(latest.get(2)).to.include({ requestId: "2", status: "fulfilled" });
+    expect(decryptions.get("1")?.status).to.equal("failed");
+  });
+
+  it("tracks nothing until DungeonGenFHE is deployed", async function () {
+    await index(requested(10, "1", 1));
+    const decryptions = tracker(async () => null);
+    await decryptions.refresh();
+
+    expect(decryptions.get("1")).to.equal(null);
+    expect(decryptions.byBatch().size).to.equal(0);
+  });
+
+  it("refreshes on every indexer change once started, and not after it is stopped", async function () {
+    const decryptions = tracker();
+    let refreshed = () => {};
+    decryptions.subscribe(() => refreshed());
+    const nextRefresh = () => new Promise<void>(resolve => { refreshed = resolve; });
+
+    const started = nextRefresh();
+    decryptions.start();
+    await started;
+    expect(decryptions.get("1")).to.equal(null);
+
+    const indexed = nextRefresh();
+    await index(requested(10, "1", 1));
+    await indexed;
+    expect(decryptions.get("1")?.status).to.equal("pending");
+
+    decryptions.stop();
+    expect(indexerListeners.size).to.equal(0);
+  });
+});
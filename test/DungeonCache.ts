@@ -0,0 +1,176 @@
+// test/DungeonCache.ts
+// What the dungeon cache keeps and when it lets go of it. Layouts are keyed by
+// everything generation depends on, the IndexedDB flavour keeps its contents
+// per name across reopening, and an upgrade from an older database version
+// drops the layouts stored under the old generator numbers while snapshots and
+// permits survive. IndexedDB itself is played by a small in-memory factory
+// that runs the same open, upgrade and request callbacks a browser does.
+import { expect } from "chai";
+import type { StoredPermit } from "../frontend/web/src/permit";
+import type { DungeonMap } from "../frontend/web/src/game/dungeonMap";
+import { DungeonCache, createMemoryCache, layoutKey } from "../frontend/web/src/cache/dungeonCache";
+import { openDungeonCache } from "../frontend/web/src/cache/indexedDbCache";
+
+type Stores = Map<string, Map<string, unknown>>;
+
+interface StubRequest {
+  result?: unknown;
+  error?: Error;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: () => void;
+}
+
+// Answers on a later tick, like IndexedDB, so the caller can attach its handlers first
+const settle = (request: StubRequest, outcome: () => unknown) => {
+  setTimeout(() => {
+    try {
+      request.result = outcome();
+      request.onsuccess?.();
+    } catch (e) {
+      request.error = e as Error;
+      request.onerror?.();
+    }
+  });
+  return request;
+};
+
+class StubIndexedDb {
+  databases = new Map<string, { version: number; stores: Stores }>();
+
+  open(name: string, version: number) {
+    const request: StubRequest = {};
+    setTimeout(() => {
+      const existing = this.databases.get(name) ?? { version: 0, stores: new Map() };
+      if (version < existing.version) {
+        request.error = new Error(`VersionError: ${name} is at version ${existing.version}`);
+        request.onerror?.();
+        return;
+      }
+      request.result = this.connect(existing.stores);
+      if (version > existing.version) request.onupgradeneeded?.();
+      this.databases.set(name, { version, stores: existing.stores });
+      request.onsuccess?.();
+    });
+    return request;
+  }
+
+  private connect(stores: Stores) {
+    return {
+      objectStoreNames: { contains: (store: string) => stores.has(store) },
+      createObjectStore: (store: string) => { stores.set(store, new Map()); },
+      deleteObjectStore: (store: string) => { stores.delete(store); },
+      transaction: (store: string) => ({
+        objectStore: () => {
+          const records = stores.get(store);
+          if (!records) throw new Error(`NotFoundError: no object store ${store}`);
+          return {
+            get: (key: string) => settle({}, () => records.get(key)),
+            put: (value: unknown, key: string) => settle({}, () => { records.set(key, value); }),
+            delete: (key: string) => settle({}, () => { records.delete(key); })
+          };
+        }
+      })
+    };
+  }
+}
+
+const USER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const TOTALS = { strength: 40, agility: 30, intelligence: 20 };
+const FLOORS = [{ rooms: [], corridors: [] }] as unknown as DungeonMap[];
+const PERMIT = { userAddress: USER, publicKey: "0x01", signature: "0x02", contractAddresses: [], startTimestamp: 1760000000, durationDays: 30 } as unknown as StoredPermit;
+
+// Puts something in every part of the cache, so a test can see which parts survive
+const fill = async (cache: DungeonCache) => {
+  await cache.putSnapshot("dungeons", { version: 3 });
+  await cache.putPermit(PERMIT);
+  await cache.putLayout(layoutKey(2, 1234, TOTALS), FLOORS);
+};
+
+describe("DungeonCache", function () {
+  it("keys layouts by generator version, seed and every total", function () {
+    const key = layoutKey(2, 1234, TOTALS);
+    expect(layoutKey(2, 1234, { ...TOTALS })).to.equal(key);
+    const others = [
+      layoutKey(1, 1234, TOTALS),
+      layoutKey(2, 1235, TOTALS),
+      layoutKey(2, 1234, { ...TOTALS, strength: 41 }),
+      layoutKey(2, 1234, { ...TOTALS, agility: 31 }),
+      layoutKey(2, 1234, { ...TOTALS, intelligence: 21 })
+    ];
+    expect(new Set([key, ...others]).size).to.equal(6);
+  });
+
+  it("keeps permits per user whatever the address casing", async function () {
+    const cache = createMemoryCache();
+    await cache.putPermit(PERMIT);
+
+    expect(await cache.getPermit(USER.toLowerCase())).to.equal(PERMIT);
+    await cache.deletePermit(USER.toUpperCase().replace("0X", "0x"));
+    expect(await cache.getPermit(USER)).to.equal(null);
+  });
+
+  describe("without IndexedDB", function () {
+    it("caches in memory", async function () {
+      const cache = await openDungeonCache("dungeon-cache:31337:a:b");
+      expect(cache.persistent).to.equal(false);
+      await fill(cache);
+      expect(await cache.getLayout(layoutKey(2, 1234, TOTALS))).to.equal(FLOORS);
+      expect(await cache.getSnapshot("missing")).to.equal(null);
+    });
+  });
+
+  describe("with IndexedDB", function () {
+    let indexedDb: StubIndexedDb;
+
+    beforeEach(function () {
+      indexedDb = new StubIndexedDb();
+      Object.assign(globalThis, { indexedDB: indexedDb });
+    });
+
+    afterEach(function () {
+      Reflect.deleteProperty(globalThis, "indexedDB");
+    });
+
+    it("keeps everything across reopening", async function () {
+      await fill(await openDungeonCache("dungeon-cache:31337:a:b"));
+      const cache = await openDungeonCache("dungeon-cache:31337:a:b");
+
+      expect(cache.persistent).to.equal(true);
+      expect(await cache.getSnapshot("dungeons")).to.deep.equal({ version: 3 });
+      expect(await cache.getPermit(USER)).to.deep.equal(PERMIT);
+      expect(await cache.getLayout(layoutKey(2, 1234, TOTALS))).to.deep.equal(FLOORS);
+    });
+
+    it("starts empty for another contract pair", async function () {
+      await fill(await openDungeonCache("dungeon-cache:31337:a:b"));
+      const cache = await openDungeonCache("dungeon-cache:31337:a:c");
+
+      expect(await cache.getSnapshot("dungeons")).to.equal(null);
+      expect(await cache.getPermit(USER)).to.equal(null);
+      expect(await cache.getLayout(layoutKey(2, 1234, TOTALS))).to.equal(null);
+    });
+
+    it("drops layouts stored before the generators were renumbered and keeps the rest", async function () {
+      const stores: Stores = new Map([
+        ["snapshots", new Map<string, unknown>([["dungeons", { version: 2 }]])],
+        ["permits", new Map<string, unknown>([[USER.toLowerCase(), PERMIT]])],
+        ["layouts", new Map<string, unknown>([[layoutKey(1, 1234, TOTALS), FLOORS]])]
+      ]);
+      indexedDb.databases.set("dungeon-cache:31337:a:b", { version: 1, stores });
+      const cache = await openDungeonCache("dungeon-cache:31337:a:b");
+
+      expect(indexedDb.databases.get("dungeon-cache:31337:a:b")?.version).to.equal(2);
+      expect(await cache.getLayout(layoutKey(1, 1234, TOTALS))).to.equal(null);
+      expect(await cache.getSnapshot("dungeons")).to.deep.equal({ version: 2 });
+      expect(await cache.getPermit(USER)).to.deep.equal(PERMIT);
+    });
+
+    it("falls back to memory when the database will not open", async function () {
+      indexedDb.databases.set("dungeon-cache:31337:a:b", { version: 99, stores: new Map() });
+      const cache = await openDungeonCache("dungeon-cache:31337:a:b");
+
+      expect(cache.persistent).to.equal(false);
+    });
+  });
+});
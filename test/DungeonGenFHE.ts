@@ -0,0 +1,373 @@
+// test/DungeonGenFHE.ts
+// DungeonGenFHE against the @fhevm/hardhat-plugin mock: attributes are
+// encrypted with fhevm.createEncryptedInput, totals are read back with a user
+// decryption and the seed arrives through the mock decryption oracle.
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { DungeonGenFHE, DungeonGenFHE__factory } from "../types";
+
+interface Attributes {
+  strength: number;
+  agility: number;
+  intellect: number;
+}
+
+const DEFAULT_COOLDOWN = 30;
+const PARTY_ID = ethers.id("dungeon-test");
+
+describe("DungeonGenFHE", function () {
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let dungeonGen: DungeonGenFHE;
+  let dungeonGenAddress: string;
+
+  const submit = async (signer: HardhatEthersSigner, attributes: Attributes, partyId = PARTY_ID) => {
+    const encrypted = await fhevm
+      .createEncryptedInput(dungeonGenAddress, signer.address)
+      .add32(attributes.strength)
+      .add32(attributes.agility)
+      .add32(attributes.intellect)
+      .encrypt();
+    return dungeonGen
+      .connect(signer)
+      .submitPartyAttributes(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof, partyId);
+  };
+
+  const decryptTotals = async (batchId: bigint, signer: HardhatEthersSigner) => {
+    const batch = await dungeonGen.batches(batchId);
+    const decrypt = (handle: string) => fhevm.userDecryptEuint(FhevmType.euint32, handle, dungeonGenAddress, signer);
+    return {
+      strength: Number(await decrypt(batch.totalEncryptedPartyStrength)),
+      agility: Number(await decrypt(batch.totalEncryptedPartyAgility)),
+      intellect: Number(await decrypt(batch.totalEncryptedPartyIntellect))
+    };
+  };
+
+  const requestSeed = async (signer: HardhatEthersSigner = owner) => {
+    const receipt = await (await dungeonGen.connect(signer).generateDungeonSeed()).wait();
+    const requested = receipt!.logs
+      .map((log) => dungeonGen.interface.parseLog(log))
+      .find((event) => event?.name === "DecryptionRequested");
+    return requested!.args.requestId as bigint;
+  };
+
+  const completions = () => dungeonGen.queryFilter(dungeonGen.filters.DecryptionCompleted());
+
+  before(async function () {
+    [owner, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("DungeonGenFHE tests only run against the fhevm mock");
+      this.skip();
+    }
+    dungeonGen = await new DungeonGenFHE__factory(owner).deploy();
+    dungeonGenAddress = await dungeonGen.getAddress();
+  });
+
+  describe("batches", function () {
+    it("opens the first batch as #1", async function () {
+      await expect(dungeonGen.openBatch()).to.emit(dungeonGen, "BatchOpened").withArgs(1);
+      const batch = await dungeonGen.batches(1);
+      expect(batch.id).to.equal(1);
+      expect(batch.open).to.equal(true);
+      expect(await dungeonGen.currentBatchId()).to.equal(1);
+    });
+
+    it("gives every new batch a fresh id", async function () {
+      await dungeonGen.openBatch();
+      await dungeonGen.closeBatch();
+      await expect(dungeonGen.openBatch()).to.emit(dungeonGen, "BatchOpened").withArgs(2);
+      expect((await dungeonGen.batches(1)).open).to.equal(false);
+      expect((await dungeonGen.batches(2)).open).to.equal(true);
+    });
+
+    it("closes only an open batch", async function () {
+      await expect(dungeonGen.closeBatch()).to.be.revertedWithCustomError(dungeonGen, "BatchClosed");
+      await dungeonGen.openBatch();
+      await expect(dungeonGen.closeBatch()).to.emit(dungeonGen, "BatchFinalized").withArgs(1);
+      await expect(dungeonGen.closeBatch()).to.be.revertedWithCustomError(dungeonGen, "BatchClosed");
+    });
+
+    it("rejects submissions and seed requests on a closed batch", async function () {
+      await expect(submit(owner, { strength: 1, agility: 1, intellect: 1 })).to.be.revertedWithCustomError(dungeonGen, "BatchClosed");
+      await dungeonGen.openBatch();
+      await dungeonGen.closeBatch();
+      await expect(submit(owner, { strength: 1, agility: 1, intellect: 1 })).to.be.revertedWithCustomError(dungeonGen, "BatchClosed");
+      await expect(dungeonGen.generateDungeonSeed()).to.be.revertedWithCustomError(dungeonGen, "BatchClosed");
+    });
+  });
+
+  describe("permissions", function () {
+    it("registers the deployer as owner and provider", async function () {
+      expect(await dungeonGen.owner()).to.equal(owner.address);
+      expect(await dungeonGen.providers(owner.address)).to.equal(true);
+    });
+
+    it("keeps owner functions to the owner", async function () {
+      const asAlice = dungeonGen.connect(alice);
+      await expect(asAlice.openBatch()).to.be.revertedWithCustomError(dungeonGen, "NotOwner");
+      await expect(asAlice.closeBatch()).to.be.revertedWithCustomError(dungeonGen, "NotOwner");
+      await expect(asAlice.setPaused(true)).to.be.revertedWithCustomError(dungeonGen, "NotOwner");
+      await expect(asAlice.setCooldownSeconds(0)).to.be.revertedWithCustomError(dungeonGen, "NotOwner");
+      // Reverted transactions with address arguments trip an assertion in the fhevm
+      // plugin's error handling once Hardhat has cached the build, so these are checked as calls
+      await expect(asAlice.addProvider.staticCall(alice.address)).to.be.revertedWithCustomError(dungeonGen, "NotOwner");
+      await expect(asAlice.removeProvider.staticCall(owner.address)).to.be.revertedWithCustomError(dungeonGen, "NotOwner");
+      await expect(asAlice.transferOwnership.staticCall(alice.address)).to.be.revertedWithCustomError(dungeonGen, "NotOwner");
+    });
+
+    it("lets only registered providers submit and request seeds", async function () {
+      await dungeonGen.openBatch();
+      await expect(submit(alice, { strength: 1, agility: 1, intellect: 1 })).to.be.revertedWithCustomError(dungeonGen, "NotProvider");
+      await expect(dungeonGen.connect(alice).generateDungeonSeed()).to.be.revertedWithCustomError(dungeonGen, "NotProvider");
+
+      await expect(dungeonGen.addProvider(alice.address)).to.emit(dungeonGen, "ProviderAdded").withArgs(alice.address);
+      await expect(submit(alice, { strength: 1, agility: 1, intellect: 1 })).to.emit(dungeonGen, "PartyAttributesSubmitted").withArgs(1, alice.address, PARTY_ID);
+
+      await expect(dungeonGen.removeProvider(alice.address)).to.emit(dungeonGen, "ProviderRemoved").withArgs(alice.address);
+      await time.increase(DEFAULT_COOLDOWN);
+      await expect(submit(alice, { strength: 1, agility: 1, intellect: 1 })).to.be.revertedWithCustomError(dungeonGen, "NotProvider");
+    });
+
+    it("hands every owner function to the new owner", async function () {
+      await expect(dungeonGen.transferOwnership(alice.address))
+        .to.emit(dungeonGen, "OwnershipTransferred")
+        .withArgs(owner.address, alice.address);
+      await expect(dungeonGen.openBatch()).to.be.revertedWithCustomError(dungeonGen, "NotOwner");
+      await expect(dungeonGen.connect(alice).openBatch()).to.emit(dungeonGen, "BatchOpened");
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks batches, submissions and seed requests while paused", async function () {
+      await dungeonGen.openBatch();
+      await expect(dungeonGen.setPaused(true)).to.emit(dungeonGen, "ContractPaused");
+      expect(await dungeonGen.paused()).to.equal(true);
+
+      await expect(dungeonGen.openBatch()).to.be.revertedWithCustomError(dungeonGen, "Paused");
+      await expect(dungeonGen.closeBatch()).to.be.revertedWithCustomError(dungeonGen, "Paused");
+      await expect(submit(owner, { strength: 1, agility: 1, intellect: 1 })).to.be.revertedWithCustomError(dungeonGen, "Paused");
+      await expect(dungeonGen.generateDungeonSeed()).to.be.revertedWithCustomError(dungeonGen, "Paused");
+
+      await expect(dungeonGen.setPaused(false)).to.emit(dungeonGen, "ContractUnpaused");
+      await expect(submit(owner, { strength: 1, agility: 1, intellect: 1 })).to.emit(dungeonGen, "PartyAttributesSubmitted");
+    });
+
+    it("only emits when the pause state changes", async function () {
+      await expect(dungeonGen.setPaused(false)).not.to.emit(dungeonGen, "ContractUnpaused");
+      await dungeonGen.setPaused(true);
+      await expect(dungeonGen.setPaused(true)).not.to.emit(dungeonGen, "ContractPaused");
+    });
+  });
+
+  describe("cooldowns", function () {
+    beforeEach(async function () {
+      await dungeonGen.openBatch();
+    });
+
+    it("starts at 30 seconds and can be changed by the owner", async function () {
+      expect(await dungeonGen.cooldownSeconds()).to.equal(DEFAULT_COOLDOWN);
+      await expect(dungeonGen.setCooldownSeconds(5)).to.emit(dungeonGen, "CooldownSecondsChanged").withArgs(DEFAULT_COOLDOWN, 5);
+      expect(await dungeonGen.cooldownSeconds()).to.equal(5);
+    });
+
+    it("makes a provider wait between submissions", async function () {
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 });
+      const submittedAt = await dungeonGen.lastSubmissionTime(owner.address);
+      expect(submittedAt).to.equal(await time.latest());
+
+      await expect(submit(owner, { strength: 1, agility: 1, intellect: 1 })).to.be.revertedWithCustomError(dungeonGen, "CooldownActive");
+      await time.increaseTo(submittedAt + BigInt(DEFAULT_COOLDOWN) - 1n);
+      await expect(submit(owner, { strength: 1, agility: 1, intellect: 1 })).to.emit(dungeonGen, "PartyAttributesSubmitted");
+    });
+
+    it("tracks each provider separately", async function () {
+      await dungeonGen.addProvider(alice.address);
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 });
+      await expect(submit(alice, { strength: 1, agility: 1, intellect: 1 })).to.emit(dungeonGen, "PartyAttributesSubmitted");
+    });
+
+    it("keeps seed requests on their own cooldown", async function () {
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 });
+      await time.increase(DEFAULT_COOLDOWN);
+      await requestSeed();
+      expect(await dungeonGen.lastDecryptionRequestTime(owner.address)).to.equal(await time.latest());
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(dungeonGen.generateDungeonSeed()).to.be.revertedWithCustomError(dungeonGen, "CooldownActive");
+      await expect(submit(owner, { strength: 1, agility: 1, intellect: 1 })).to.emit(dungeonGen, "PartyAttributesSubmitted");
+      await time.increase(DEFAULT_COOLDOWN);
+      await expect(dungeonGen.generateDungeonSeed()).to.emit(dungeonGen, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("lets a zero cooldown submit back to back", async function () {
+      await dungeonGen.setCooldownSeconds(0);
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 });
+      await expect(submit(owner, { strength: 1, agility: 1, intellect: 1 })).to.emit(dungeonGen, "PartyAttributesSubmitted");
+    });
+  });
+
+  describe("encrypted aggregation", function () {
+    beforeEach(async function () {
+      await dungeonGen.openBatch();
+      await dungeonGen.addProvider(alice.address);
+      await dungeonGen.addProvider(bob.address);
+      await dungeonGen.setCooldownSeconds(0);
+    });
+
+    it("starts every batch at encrypted zero", async function () {
+      expect((await dungeonGen.batches(1)).totalEncryptedPartyStrength).to.not.equal(ethers.ZeroHash);
+      await submit(owner, { strength: 0, agility: 0, intellect: 0 });
+      expect(await decryptTotals(1n, owner)).to.deep.equal({ strength: 0, agility: 0, intellect: 0 });
+    });
+
+    it("adds up submissions from several providers", async function () {
+      await submit(owner, { strength: 10, agility: 20, intellect: 30 });
+      await submit(alice, { strength: 5, agility: 6, intellect: 7 });
+      await submit(bob, { strength: 100, agility: 0, intellect: 1 });
+      await submit(owner, { strength: 1, agility: 2, intellect: 3 });
+
+      expect(await decryptTotals(1n, owner)).to.deep.equal({ strength: 116, agility: 28, intellect: 41 });
+    });
+
+    it("tags each submission with its party, so one provider's parties stay apart", async function () {
+      const otherParty = ethers.id("dungeon-other");
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 });
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 }, otherParty);
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 });
+
+      const tagged = (partyId: string) => dungeonGen.queryFilter(dungeonGen.filters.PartyAttributesSubmitted(1, owner.address, partyId));
+      expect(await tagged(PARTY_ID)).to.have.length(2);
+      expect(await tagged(otherParty)).to.have.length(1);
+    });
+
+    it("lets earlier submitters regain access to the replaced totals", async function () {
+      await submit(alice, { strength: 3, agility: 4, intellect: 5 });
+      await submit(bob, { strength: 1, agility: 1, intellect: 1 });
+      expect(await dungeonGen.hasTotalsAccess(1, alice.address)).to.equal(false);
+      expect(await dungeonGen.hasTotalsAccess(1, bob.address)).to.equal(true);
+
+      await dungeonGen.connect(alice).allowBatchTotals(1);
+      expect(await dungeonGen.hasTotalsAccess(1, alice.address)).to.equal(true);
+      expect(await decryptTotals(1n, alice)).to.deep.equal({ strength: 4, agility: 5, intellect: 6 });
+    });
+
+    it("keeps batches apart", async function () {
+      await submit(owner, { strength: 7, agility: 7, intellect: 7 });
+      await dungeonGen.closeBatch();
+      await dungeonGen.openBatch();
+      await submit(owner, { strength: 2, agility: 3, intellect: 4 });
+
+      expect(await decryptTotals(1n, owner)).to.deep.equal({ strength: 7, agility: 7, intellect: 7 });
+      expect(await decryptTotals(2n, owner)).to.deep.equal({ strength: 2, agility: 3, intellect: 4 });
+    });
+
+    it("rejects access checks for unknown batches", async function () {
+      await expect(dungeonGen.allowBatchTotals(9)).to.be.revertedWithCustomError(dungeonGen, "InvalidBatchId");
+      await expect(dungeonGen.hasTotalsAccess(9, owner.address)).to.be.revertedWithCustomError(dungeonGen, "InvalidBatchId");
+    });
+  });
+
+  describe("seed generation", function () {
+    beforeEach(async function () {
+      await dungeonGen.openBatch();
+      await dungeonGen.addProvider(alice.address);
+      await dungeonGen.setCooldownSeconds(0);
+    });
+
+    it("decrypts seed = strength * agility + intellect with the totals", async function () {
+      await submit(owner, { strength: 12, agility: 30, intellect: 9 });
+      await submit(alice, { strength: 8, agility: 5, intellect: 1 });
+      const requestId = await requestSeed();
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await completions();
+      expect(completed.args.requestId).to.equal(requestId);
+      expect(completed.args.batchId).to.equal(1);
+      expect(completed.args.strength).to.equal(20);
+      expect(completed.args.agility).to.equal(35);
+      expect(completed.args.intellect).to.equal(10);
+      expect(completed.args.seed).to.equal(20 * 35 + 10);
+      expect((await dungeonGen.decryptionContexts(requestId)).processed).to.equal(true);
+    });
+
+    it("wraps the seed modulo 2^32", async function () {
+      await submit(owner, { strength: 100000, agility: 50000, intellect: 7 });
+      await requestSeed();
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await completions();
+      expect(completed.args.seed).to.equal((100000n * 50000n + 7n) % 2n ** 32n);
+    });
+
+    it("records the batch and state hash of every request", async function () {
+      await submit(owner, { strength: 1, agility: 2, intellect: 3 });
+      const requestId = await requestSeed();
+      const context = await dungeonGen.decryptionContexts(requestId);
+      expect(context.batchId).to.equal(1);
+      expect(context.stateHash).to.not.equal(ethers.ZeroHash);
+      expect(context.processed).to.equal(false);
+      await fhevm.awaitDecryptionOracle();
+    });
+  });
+
+  describe("oracle callback", function () {
+    beforeEach(async function () {
+      await dungeonGen.openBatch();
+      await dungeonGen.setCooldownSeconds(0);
+      await submit(owner, { strength: 4, agility: 5, intellect: 6 });
+    });
+
+    it("rejects a replay of a processed request", async function () {
+      const requestId = await requestSeed();
+      await fhevm.awaitDecryptionOracle();
+      expect(await completions()).to.have.length(1);
+
+      await expect(dungeonGen.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(dungeonGen, "ReplayAttempt");
+    });
+
+    it("rejects the callback once a later submission changed the batch", async function () {
+      const requestId = await requestSeed();
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 });
+
+      await expect(dungeonGen.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(dungeonGen, "StateMismatch");
+      // The oracle's answer to the stale request is rejected too, and nothing completes
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+      expect(await completions()).to.have.length(0);
+      expect((await dungeonGen.decryptionContexts(requestId)).processed).to.equal(false);
+    });
+
+    it("lets a new request replace a stale one", async function () {
+      const staleId = await requestSeed();
+      await submit(owner, { strength: 1, agility: 1, intellect: 1 });
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+
+      const freshId = await requestSeed();
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await completions();
+      expect(completed.args.requestId).to.equal(freshId);
+      expect(completed.args.seed).to.equal(5 * 6 + 7);
+      expect((await dungeonGen.decryptionContexts(staleId)).processed).to.equal(false);
+    });
+
+    it("rejects a callback without a valid KMS signature", async function () {
+      const requestId = await requestSeed();
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32", "uint32", "uint32"], [4, 5, 6, 26]);
+      await expect(dungeonGen.myCallback(requestId, cleartexts, "0x")).to.be.reverted;
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await completions();
+      expect(completed.args.seed).to.equal(4 * 5 + 6);
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(dungeonGen.myCallback(12345, "0x", "0x")).to.be.revertedWithCustomError(dungeonGen, "InvalidBatchId");
+    });
+  });
+});
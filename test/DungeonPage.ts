@@ -0,0 +1,103 @@
+// test/DungeonPage.ts
+// The dungeon list's load path: keys are ordered and paged from the indexed
+// DataStored history alone, and only the records on the page are decoded and
+// have their signatures checked, however many dungeons the adapter holds.
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { TypedDataDomain } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { UniversalAdapterMock, UniversalAdapterMock__factory } from "../types";
+import { StoredDungeonRecord, encodeDungeonRecord } from "../frontend/web/src/records/dungeonRecord";
+import { checkRecordAuthor, recordDomain, signDungeonRecord } from "../frontend/web/src/records/recordSignature";
+import { AuthorCheck, resolveRecord } from "../frontend/web/src/records/recordOwnership";
+import { DUNGEONS_PER_PAGE, dungeonPage, orderDungeonKeys } from "../frontend/web/src/records/dungeonPage";
+import { IndexedEvent, createEventInterface, dataWrites, decodeLog } from "../frontend/web/src/indexer/events";
+import { recordKey } from "../frontend/web/src/indexer/dungeonKeys";
+
+const DUNGEON_COUNT = 30;
+
+// No party submissions are indexed here, so every key belongs to its first writer
+const NO_SUBMISSIONS = new Map<string, string>();
+
+const dungeonId = (index: number) => `dungeon-${1760000000000 + index}-k3x9`;
+
+describe("DungeonPage", function () {
+  let owner: HardhatEthersSigner;
+  let adapter: UniversalAdapterMock;
+  let domain: TypedDataDomain;
+
+  const record = (index: number): Omit<StoredDungeonRecord, "schema"> => ({
+    batchId: 1,
+    timestamp: 1760000000 + index,
+    owner: owner.address,
+    dungeonName: `Vault ${index}`,
+    status: "generating",
+    generatorVersion: 2,
+    partySize: 1,
+    party: [{ name: "Brakka", characterClass: "warrior" }],
+    monstersDefeated: 0,
+    treasuresFound: 0,
+    outcome: null,
+    turns: null,
+    actionLog: null,
+    floorProgress: []
+  });
+
+  const history = async () => {
+    const iface = createEventInterface(UniversalAdapterMock__factory.abi);
+    const logs = await ethers.provider.getLogs({ address: await adapter.getAddress(), fromBlock: 0 });
+    return dataWrites(logs.map(log => decodeLog(iface, log)).filter((event): event is IndexedEvent => event !== null));
+  };
+
+  before(async function () {
+    [owner] = await ethers.getSigners();
+    adapter = await new UniversalAdapterMock__factory(owner).deploy();
+    domain = recordDomain(31337, await adapter.getAddress());
+    for (let index = 0; index < DUNGEON_COUNT; index++) {
+      const fields = record(index);
+      const signature = await signDungeonRecord(owner, domain, dungeonId(index), fields);
+      await (await adapter.setData(recordKey(dungeonId(index)), encodeDungeonRecord(fields, signature))).wait();
+    }
+  });
+
+  it("orders dungeons newest first from their first write", async function () {
+    const ids = Array.from({ length: DUNGEON_COUNT }, (_, index) => dungeonId(index));
+    // A later write to an old dungeon does not move it up the list
+    await (await adapter.setData(recordKey(dungeonId(0)), encodeDungeonRecord(record(0), await signDungeonRecord(owner, domain, dungeonId(0), record(0))))).wait();
+    const ordered = orderDungeonKeys(ids, await history(), NO_SUBMISSIONS);
+    expect(ordered).to.deep.equal([...ids].reverse());
+  });
+
+  it("puts ids the indexer has not seen last and leaves out dungeons their owner emptied", async function () {
+    const emptied = "dungeon-1750000000000-gone";
+    await (await adapter.setData(recordKey(emptied), ethers.toUtf8Bytes("{}"))).wait();
+    expect(orderDungeonKeys([emptied], await history(), NO_SUBMISSIONS)).to.deep.equal([emptied]);
+    await (await adapter.setData(recordKey(emptied), "0x")).wait();
+    const ordered = orderDungeonKeys(["dungeon-unindexed", dungeonId(0), emptied], await history(), NO_SUBMISSIONS);
+    expect(ordered).to.deep.equal([dungeonId(0), "dungeon-unindexed"]);
+  });
+
+  it("pages keys and moves past-the-end pages back to the last one", function () {
+    const keys = Array.from({ length: 30 }, (_, index) => `k${index}`);
+    expect(dungeonPage(keys, 0)).to.deep.equal({ keys: keys.slice(0, 12), page: 0, pageCount: 3 });
+    expect(dungeonPage(keys, 2).keys).to.deep.equal(keys.slice(24));
+    expect(dungeonPage(keys, 7).page).to.equal(2);
+    expect(dungeonPage([], 3)).to.deep.equal({ keys: [], page: 0, pageCount: 1 });
+  });
+
+  it("decodes and checks only the records on the page", async function () {
+    const writes = await history();
+    const ids = orderDungeonKeys(Array.from({ length: DUNGEON_COUNT }, (_, index) => dungeonId(index)), writes, NO_SUBMISSIONS);
+    let checks = 0;
+    const check: AuthorCheck = (id, _value, decoded, sender) => {
+      checks++;
+      return checkRecordAuthor(domain, id, decoded, sender);
+    };
+    const page = dungeonPage(ids, 1);
+    const shown = page.keys.map(id => resolveRecord(id, writes.get(recordKey(id)) ?? [], check, null));
+    expect(checks).to.equal(DUNGEONS_PER_PAGE);
+    const pageIndexes = Array.from({ length: DUNGEONS_PER_PAGE }, (_, offset) => DUNGEON_COUNT - 1 - DUNGEONS_PER_PAGE - offset);
+    expect(shown.map(resolved => resolved?.rejected ? null : resolved?.decoded.record.dungeonName))
+      .to.deep.equal(pageIndexes.map(index => `Vault ${index}`));
+  });
+});
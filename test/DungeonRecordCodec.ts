@@ -0,0 +1,302 @@
+// test/DungeonRecordCodec.ts
+// The binary dungeon record format against the JSON it replaces: every older
+// JSON schema still decodes, records survive a round trip with their owner's
+// signature intact, and malformed bytes are rejected. The gas cases write the
+// same records both ways through a UniversalAdapter-shaped store; run them with
+// REPORT_GAS=1 npx hardhat test test/DungeonRecordCodec.ts for the full table.
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { UniversalAdapterMock, UniversalAdapterMock__factory } from "../types";
+import {
+  DUNGEON_RECORD_SCHEMA,
+  StoredDungeonRecord,
+  decodeDungeonRecord,
+  encodeDungeonRecord
+} from "../frontend/web/src/records/dungeonRecord";
+import { BINARY_RECORD_MAGIC, encodeBinaryRecord } from "../frontend/web/src/records/recordCodec";
+import { checkRecordAuthor, recordDomain, signDungeonRecord } from "../frontend/web/src/records/recordSignature";
+
+type RecordFields = Omit<StoredDungeonRecord, "schema">;
+
+const DOMAIN = recordDomain(31337, "0x2A3466d4824f5A0cce332E85af0dBb5482AA0370");
+const DUNGEON_ID = "dungeon-1760000000000-k3x9";
+
+// A room-by-room run: move, fight, search, then descend each floor
+const RUN_LOG = Array.from({ length: 3 }, (_, floor) =>
+  Array.from({ length: 12 }, (_, room) => `m${floor * 12 + room} a a q`).join(" ") + (floor < 2 ? " d" : " r")
+).join(" ");
+
+describe("DungeonRecordCodec", function () {
+  let owner: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+
+  const newDungeon = (): RecordFields => ({
+    batchId: 7,
+    timestamp: 1760000000,
+    owner: owner.address,
+    dungeonName: "The Sunken Vault",
+    status: "generating",
+    generatorVersion: 2,
+    partySize: 4,
+    party: [
+      { name: "Brakka", characterClass: "warrior" },
+      { name: "Sliv", characterClass: "rogue" },
+      { name: "Orenna", characterClass: "mage" },
+      { name: "Tam", characterClass: "cleric" }
+    ],
+    monstersDefeated: 0,
+    treasuresFound: 0,
+    outcome: null,
+    turns: null,
+    actionLog: null,
+    floorProgress: []
+  });
+
+  const completedRun = (): RecordFields => ({
+    ...newDungeon(),
+    status: "completed",
+    monstersDefeated: 31,
+    treasuresFound: 9,
+    outcome: "retreat",
+    turns: 142,
+    actionLog: RUN_LOG,
+    floorProgress: [
+      { roomsVisited: 12, monstersDefeated: 11, treasuresFound: 4 },
+      { roomsVisited: 12, monstersDefeated: 10, treasuresFound: 3 },
+      { roomsVisited: 12, monstersDefeated: 10, treasuresFound: 2 }
+    ]
+  });
+
+  // What encodeDungeonRecord wrote before the binary format
+  const jsonRecord = (fields: Record<string, unknown>) => ethers.toUtf8Bytes(JSON.stringify(fields));
+
+  // The same record as schemas 1 and 2 stored it, when v1 was the multi-floor generator and v2 the single-floor one
+  const beforeRenumbering = (fields: RecordFields): RecordFields => ({ ...fields, generatorVersion: 3 - fields.generatorVersion });
+
+  const signed = async (fields: RecordFields, signer = owner) => signDungeonRecord(signer, DOMAIN, DUNGEON_ID, fields);
+
+  before(async function () {
+    [owner, other] = await ethers.getSigners();
+  });
+
+  describe("format", function () {
+    it("writes binary records that decode to the same fields and signature", async function () {
+      for (const fields of [newDungeon(), completedRun()]) {
+        const signature = await signed(fields);
+        const bytes = encodeDungeonRecord(fields, signature);
+        expect(bytes[0]).to.equal(BINARY_RECORD_MAGIC);
+
+        const decoded = decodeDungeonRecord(bytes);
+        expect(decoded.record).to.deep.equal({ schema: DUNGEON_RECORD_SCHEMA, ...fields });
+        expect(decoded.signature).to.equal(signature);
+        expect(decoded.writtenSchema).to.equal(DUNGEON_RECORD_SCHEMA);
+        expect(checkRecordAuthor(DOMAIN, DUNGEON_ID, decoded, owner.address)).to.equal(null);
+      }
+    });
+
+    it("keeps varints and fixed-width fields exact at their boundaries", async function () {
+      for (const value of [0, 127, 128, 16383, 16384, 2 ** 32, Number.MAX_SAFE_INTEGER]) {
+        const fields = { ...completedRun(), batchId: value || 1, turns: value, monstersDefeated: value };
+        const decoded = decodeDungeonRecord(encodeDungeonRecord(fields, await signed(fields)));
+        expect(decoded.record).to.deep.equal({ schema: DUNGEON_RECORD_SCHEMA, ...fields });
+      }
+      const late = { ...newDungeon(), timestamp: 2 ** 40 - 1 };
+      expect(decodeDungeonRecord(encodeDungeonRecord(late, await signed(late))).record.timestamp).to.equal(2 ** 40 - 1);
+      const tooLate = { ...newDungeon(), timestamp: 2 ** 40 };
+      expect(() => encodeDungeonRecord(tooLate, "0x" + "11".repeat(65))).to.throw(/5 bytes/);
+    });
+
+    it("stores names as UTF-8", async function () {
+      const fields = { ...newDungeon(), dungeonName: "Crypte des Échos 🗝️", party: [{ name: "Ørn", characterClass: "mage" as const }] };
+      expect(decodeDungeonRecord(encodeDungeonRecord(fields, await signed(fields))).record.dungeonName).to.equal("Crypte des Échos 🗝️");
+    });
+
+    it("refuses action logs that would not unpack to the signed text", async function () {
+      for (const actionLog of ["m1  a", "m1 a ", "m01 a", "z"]) {
+        expect(() => encodeDungeonRecord({ ...completedRun(), actionLog }, "0x" + "11".repeat(65))).to.throw(/action code/);
+      }
+    });
+  });
+
+  describe("migration", function () {
+    it("rejects the placeholder records from before batches, which name none", function () {
+      const baseline = jsonRecord({
+        attributes: "FHE-NDAzMDIw",
+        timestamp: 1740000000,
+        owner: owner.address,
+        dungeonName: "First Crypt",
+        status: "completed",
+        monstersDefeated: 5,
+        treasuresFound: 2
+      });
+      expect(() => decodeDungeonRecord(baseline)).to.throw(/from before dungeons came from DungeonGenFHE batches/);
+    });
+
+    // What the app wrote once dungeons came from batches, before records had a schema
+    it("reads untyped JSON from before schemas", function () {
+      const decoded = decodeDungeonRecord(jsonRecord({
+        batchId: 3,
+        timestamp: 1750000000,
+        owner: owner.address,
+        dungeonName: "Old Mine",
+        status: "completed",
+        monstersDefeated: 4,
+        treasuresFound: 1
+      }));
+      expect(decoded.writtenSchema).to.equal(0);
+      expect(decoded.signature).to.equal(null);
+      expect(decoded.record).to.include({ generatorVersion: 2, partySize: 1, outcome: null, monstersDefeated: 4 });
+    });
+
+    it("rebuilds runs recorded before multi-floor dungeons on the single-floor generator", function () {
+      const decoded = decodeDungeonRecord(jsonRecord({
+        batchId: 3,
+        timestamp: 1750000000,
+        owner: owner.address,
+        dungeonName: "Old Mine",
+        status: "completed",
+        monstersDefeated: 2,
+        treasuresFound: 1,
+        outcome: "victory",
+        turns: 9,
+        actionLog: "m1 a a m2 a"
+      }));
+      expect(decoded.record).to.include({ generatorVersion: 1, outcome: "victory" });
+    });
+
+    it("reads schema 1 and signed schema 2 JSON records", async function () {
+      const fields = completedRun();
+      const v1 = decodeDungeonRecord(jsonRecord({ ...beforeRenumbering(fields), schema: 1 }));
+      expect(v1.writtenSchema).to.equal(1);
+      expect(v1.record).to.deep.equal({ schema: DUNGEON_RECORD_SCHEMA, ...fields });
+
+      const signature = await signed(beforeRenumbering(fields));
+      const v2 = decodeDungeonRecord(jsonRecord({ ...beforeRenumbering(fields), schema: 2, signature }));
+      expect(v2.writtenSchema).to.equal(2);
+      expect(v2.signature).to.equal(signature);
+      expect(v2.record).to.deep.equal({ schema: DUNGEON_RECORD_SCHEMA, ...fields });
+      expect(checkRecordAuthor(DOMAIN, DUNGEON_ID, v2, owner.address)).to.equal(null);
+    });
+
+    it("renumbers the generator of schema 2 binary records and checks the signature against the old number", async function () {
+      for (const fields of [completedRun(), { ...completedRun(), generatorVersion: 1 }]) {
+        const signature = await signed(beforeRenumbering(fields));
+        const bytes = encodeBinaryRecord({ ...beforeRenumbering(fields), signature });
+        bytes[1] = 2;
+        const decoded = decodeDungeonRecord(bytes);
+        expect(decoded.writtenSchema).to.equal(2);
+        expect(decoded.record).to.deep.equal({ schema: DUNGEON_RECORD_SCHEMA, ...fields });
+        expect(checkRecordAuthor(DOMAIN, DUNGEON_ID, decoded, owner.address)).to.equal(null);
+      }
+    });
+
+    it("rewrites a signed JSON record as binary without invalidating its signature", async function () {
+      const fields = completedRun();
+      const signature = await signed(fields);
+      const { record, signature: carried } = decodeDungeonRecord(jsonRecord({ ...fields, schema: 3, signature }));
+      const { schema, ...rest } = record;
+      const rewritten = decodeDungeonRecord(encodeDungeonRecord(rest, carried!));
+      expect(rewritten.record).to.deep.equal(record);
+      expect(checkRecordAuthor(DOMAIN, DUNGEON_ID, rewritten, owner.address)).to.equal(null);
+    });
+
+    it("needs a new signature to rewrite a record signed before the generators were renumbered", async function () {
+      const fields = completedRun();
+      const { record, signature } = decodeDungeonRecord(jsonRecord({ ...beforeRenumbering(fields), schema: 2, signature: await signed(beforeRenumbering(fields)) }));
+      const { schema, ...rest } = record;
+      const carried = decodeDungeonRecord(encodeDungeonRecord(rest, signature!));
+      expect(checkRecordAuthor(DOMAIN, DUNGEON_ID, carried, owner.address)).to.match(/not the owner/);
+      const resigned = decodeDungeonRecord(encodeDungeonRecord(rest, await signed(rest)));
+      expect(checkRecordAuthor(DOMAIN, DUNGEON_ID, resigned, owner.address)).to.equal(null);
+    });
+
+    it("still detects a record signed by someone else after rewriting it", async function () {
+      const fields = completedRun();
+      const decoded = decodeDungeonRecord(encodeDungeonRecord(fields, await signed(fields, other)));
+      expect(checkRecordAuthor(DOMAIN, DUNGEON_ID, decoded, other.address)).to.match(/not the owner/);
+    });
+  });
+
+  describe("malformed bytes", function () {
+    let valid: Uint8Array;
+
+    before(async function () {
+      const fields = completedRun();
+      valid = encodeDungeonRecord(fields, await signed(fields));
+    });
+
+    const withByte = (index: number, value: number) => {
+      const copy = Uint8Array.from(valid);
+      copy[index] = value;
+      return copy;
+    };
+
+    it("rejects truncated records and trailing bytes", function () {
+      expect(() => decodeDungeonRecord(valid.subarray(0, valid.length - 1))).to.throw(/truncated/);
+      expect(() => decodeDungeonRecord(Uint8Array.from([...valid, 0]))).to.throw(/trailing/);
+    });
+
+    it("rejects unknown schemas, flags and classes", function () {
+      expect(() => decodeDungeonRecord(withByte(1, 4))).to.throw(/schema 4/);
+      expect(() => decodeDungeonRecord(withByte(2, valid[2] | 0x80))).to.throw(/flags/);
+      // The first member's class byte follows the name, its length byte and the member count
+      const classOffset = 3 + 20 + 5 + 1 + 1 + 1 + 1 + "The Sunken Vault".length + 1;
+      expect(() => decodeDungeonRecord(withByte(classOffset, 9))).to.throw(/character class 9/);
+    });
+
+    it("rejects binary records without a signature", function () {
+      const { schema, ...fields } = decodeDungeonRecord(valid).record;
+      expect(() => decodeDungeonRecord(encodeBinaryRecord({ ...fields, signature: null }))).to.throw(/signature/);
+    });
+
+    it("still validates the decoded fields", function () {
+      // Clearing the completed flag leaves an outcome on a generating dungeon
+      expect(() => decodeDungeonRecord(withByte(2, valid[2] & ~1))).to.throw(/status/);
+    });
+
+    it("rejects JSON party members and floors of the wrong shape", function () {
+      const json = (fields: Record<string, unknown>) =>
+        jsonRecord({ ...completedRun(), schema: DUNGEON_RECORD_SCHEMA, signature: "0x" + "11".repeat(65), ...fields });
+      for (const member of [null, "Brakka", { name: "Brakka" }, { name: "Brakka", characterClass: "toString" }, { name: 7, characterClass: "mage" }]) {
+        expect(() => decodeDungeonRecord(json({ party: [member] }))).to.throw(/party must be named characters/);
+      }
+      for (const floor of [null, [2, 3, 1], { roomsVisited: 2, monstersDefeated: 3 }, { roomsVisited: -1, monstersDefeated: 3, treasuresFound: 1 }]) {
+        expect(() => decodeDungeonRecord(json({ floorProgress: [floor] }))).to.throw(/floorProgress must be per-floor counts/);
+      }
+    });
+  });
+
+  describe("gas", function () {
+    let adapter: UniversalAdapterMock;
+
+    beforeEach(async function () {
+      adapter = await new UniversalAdapterMock__factory(owner).deploy();
+    });
+
+    // Both writes go to fresh keys of the same length, so only the value differs
+    const setDataGas = async (key: string, value: Uint8Array) => {
+      const receipt = await (await adapter.setData(key, value)).wait();
+      return receipt!.gasUsed;
+    };
+
+    const compare = async (fields: RecordFields) => {
+      const signature = await signed(fields);
+      const json = jsonRecord({ ...fields, schema: 2, signature });
+      const binary = encodeDungeonRecord(fields, signature);
+      expect(binary.length).to.be.lessThan(json.length / 2);
+      const jsonGas = await setDataGas(`dungeon_${DUNGEON_ID}-json`, json);
+      const binaryGas = await setDataGas(`dungeon_${DUNGEON_ID}-bin0`, binary);
+      expect(binaryGas).to.be.lessThan(jsonGas);
+      expect(await adapter.getData(`dungeon_${DUNGEON_ID}-bin0`)).to.equal(ethers.hexlify(binary));
+    };
+
+    it("costs less to create a dungeon", async function () {
+      await compare(newDungeon());
+    });
+
+    it("costs less to record a run", async function () {
+      await compare(completedRun());
+    });
+  });
+});
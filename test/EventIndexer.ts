@@ -0,0 +1,233 @@
+// test/EventIndexer.ts
+// The event indexer against a scripted chain: a stub provider serves
+// DataStored logs from blocks whose hashes the test controls, refuses log
+// ranges above a limit the way public RPCs do, and can swap in a fork between
+// passes or while a chunk is being read. Everything is indexed into the memory
+// store, so what ends up committed is checked directly.
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { UniversalAdapterMock__factory } from "../types";
+import { createEventIndexer, IndexerChange } from "../frontend/web/src/indexer/indexer";
+import { createMemoryStore, IndexerStore } from "../frontend/web/src/indexer/store";
+import { EventOf, createEventInterface } from "../frontend/web/src/indexer/events";
+
+const ADAPTER = "0x2A3466d4824f5A0cce332E85af0dBb5482AA0370";
+const WRITER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const iface = createEventInterface(UniversalAdapterMock__factory.abi);
+
+interface Write {
+  block: number;
+  key: string;
+  value: string;
+}
+
+// A chain of empty blocks with DataStored writes in some of them. Forking from a block
+// gives it and every later block new hashes and replaces the writes from there on
+class StubChain {
+  head: number;
+  writes: Write[];
+  fork = 0;
+  forkedFrom = Infinity;
+  maxRange = Infinity;
+  getLogsCalls: [number, number][] = [];
+  /** Run inside getLogs, before the logs are looked up and before they are returned */
+  beforeLogs: (() => void) | null = null;
+  afterLogs: (() => void) | null = null;
+
+  constructor(head: number, writes: Write[]) {
+    this.head = head;
+    this.writes = writes;
+  }
+
+  hashOf(block: number) {
+    return ethers.id(`${block >= this.forkedFrom ? this.fork : 0}:${block}`);
+  }
+
+  reorg(fromBlock: number, head: number, writes: Write[]) {
+    this.fork++;
+    this.forkedFrom = Math.min(this.forkedFrom, fromBlock);
+    this.head = head;
+    this.writes = [...this.writes.filter(write => write.block < fromBlock), ...writes];
+  }
+
+  provider(): ethers.Provider {
+    const stub = {
+      getBlockNumber: async () => this.head,
+      getBlock: async (block: number) => (block <= this.head ? { hash: this.hashOf(block) } : null),
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+        if (toBlock - fromBlock + 1 > this.maxRange) throw new Error(`query exceeds max block range ${this.maxRange}`);
+        this.getLogsCalls.push([fromBlock, toBlock]);
+        this.beforeLogs?.();
+        const logs = this.writes
+          .filter(write => write.block >= fromBlock && write.block <= toBlock)
+          .map((write, index) => ({
+            ...iface.encodeEventLog("DataStored", [WRITER, write.key, write.value]),
+            address: ADAPTER,
+            blockNumber: write.block,
+            blockHash: this.hashOf(write.block),
+            transactionHash: ethers.id(`tx:${this.hashOf(write.block)}:${index}`),
+            index,
+            removed: false
+          }));
+        this.afterLogs?.();
+        return logs;
+      }
+    };
+    return stub as unknown as ethers.Provider;
+  }
+}
+
+const write = (block: number, value = "0x01"): Write => ({ block, key: `dungeon_${block}`, value });
+
+const stored = async (store: IndexerStore) =>
+  (await store.query()).map(event => {
+    const { blockNumber, blockHash, value } = event as EventOf<"DataStored">;
+    return { blockNumber, blockHash, value };
+  });
+
+describe("EventIndexer", function () {
+  let chain: StubChain;
+  let store: IndexerStore;
+  let changes: IndexerChange[];
+
+  const indexer = (chunkSize = 64) => {
+    const created = createEventIndexer({
+      provider: chain.provider(),
+      addresses: [ADAPTER],
+      abis: [UniversalAdapterMock__factory.abi],
+      store,
+      startBlock: 0,
+      chunkSize,
+      minChunkSize: 4
+    });
+    created.subscribe(change => changes.push(change));
+    return created;
+  };
+
+  beforeEach(function () {
+    chain = new StubChain(99, [write(5), write(50), write(95)]);
+    store = createMemoryStore();
+    changes = [];
+  });
+
+  describe("chunks", function () {
+    it("halves chunks the RPC refuses and covers every block once", async function () {
+      chain.maxRange = 16;
+      await indexer().sync();
+
+      expect(chain.getLogsCalls.every(([from, to]) => to - from + 1 <= 16)).to.equal(true);
+      chain.getLogsCalls.forEach(([from], i) => expect(from).to.equal(i === 0 ? 0 : chain.getLogsCalls[i - 1][1] + 1));
+      expect(chain.getLogsCalls[chain.getLogsCalls.length - 1][1]).to.equal(99);
+      expect((await stored(store)).map(event => event.blockNumber)).to.deep.equal([5, 50, 95]);
+      expect(await store.getCursor()).to.deep.equal({ blockNumber: 99, blockHash: chain.hashOf(99) });
+    });
+
+    it("gives up once chunks cannot shrink any further", async function () {
+      chain.maxRange = 2;
+      await expect(indexer().sync()).to.be.rejectedWith(/max block range/);
+      expect(await store.getCursor()).to.equal(null);
+    });
+
+    it("only picks up new blocks on the next pass", async function () {
+      const events = indexer();
+      await events.sync();
+      chain.head = 120;
+      chain.writes.push(write(110));
+      chain.getLogsCalls = [];
+      await events.sync();
+
+      expect(chain.getLogsCalls).to.deep.equal([[100, 120]]);
+      expect((await stored(store)).map(event => event.blockNumber)).to.deep.equal([5, 50, 95, 110]);
+    });
+  });
+
+  describe("reorgs", function () {
+    it("rolls back events from replaced blocks before indexing the new fork", async function () {
+      const events = indexer();
+      await events.sync();
+      chain.reorg(90, 110, [write(95, "0x02"), write(97)]);
+      changes = [];
+      await events.sync();
+
+      const [rollback, ...added] = changes;
+      expect(rollback.added).to.deep.equal([]);
+      expect(rollback.removed.map(event => (event as EventOf<"DataStored">).value)).to.deep.equal(["0x01"]);
+      expect(rollback.cursor?.blockNumber).to.equal(63);
+      expect(added.flatMap(change => change.added).map(event => event.blockNumber)).to.deep.equal([95, 97]);
+
+      expect(await stored(store)).to.deep.equal([
+        { blockNumber: 5, blockHash: chain.hashOf(5), value: "0x01" },
+        { blockNumber: 50, blockHash: chain.hashOf(50), value: "0x01" },
+        { blockNumber: 95, blockHash: chain.hashOf(95), value: "0x02" },
+        { blockNumber: 97, blockHash: chain.hashOf(97), value: "0x01" }
+      ]);
+      expect(await store.getCursor()).to.deep.equal({ blockNumber: 110, blockHash: chain.hashOf(110) });
+    });
+
+    it("rolls back to just below the oldest block it remembers when none of them survived", async function () {
+      const events = indexer();
+      await events.sync();
+      // Blocks 50, 63, 95 and 99 are remembered, and all of them are replaced
+      chain.reorg(45, 99, [write(55, "0x03")]);
+      await events.sync();
+
+      expect(changes.find(change => change.removed.length > 0)?.cursor).to.deep.equal({ blockNumber: 49, blockHash: chain.hashOf(49) });
+      expect(await stored(store)).to.deep.equal([
+        { blockNumber: 5, blockHash: chain.hashOf(5), value: "0x01" },
+        { blockNumber: 55, blockHash: chain.hashOf(55), value: "0x03" }
+      ]);
+    });
+
+    it("reads a chunk again when its blocks are replaced after its logs are read", async function () {
+      // The logs served are the old fork's, and the chain moves on before they are committed
+      chain.afterLogs = () => {
+        chain.afterLogs = null;
+        chain.reorg(90, 99, [write(95, "0x02")]);
+      };
+      await indexer().sync();
+
+      expect(changes.flatMap(change => change.removed)).to.deep.equal([]);
+      expect(await stored(store)).to.deep.equal([
+        { blockNumber: 5, blockHash: chain.hashOf(5), value: "0x01" },
+        { blockNumber: 50, blockHash: chain.hashOf(50), value: "0x01" },
+        { blockNumber: 95, blockHash: chain.hashOf(95), value: "0x02" }
+      ]);
+      expect(await store.getCursor()).to.deep.equal({ blockNumber: 99, blockHash: chain.hashOf(99) });
+    });
+
+    it("reads a chunk again when its last block is replaced before its logs are read", async function () {
+      // The logs served are the new fork's, but the chunk's end was looked up on the old one
+      chain.beforeLogs = () => {
+        if (chain.getLogsCalls.length === 2) chain.reorg(90, 99, [write(95, "0x02")]);
+      };
+      await indexer().sync();
+
+      expect(chain.getLogsCalls).to.deep.equal([[0, 63], [64, 99], [64, 99]]);
+      expect(await stored(store)).to.deep.equal([
+        { blockNumber: 5, blockHash: chain.hashOf(5), value: "0x01" },
+        { blockNumber: 50, blockHash: chain.hashOf(50), value: "0x01" },
+        { blockNumber: 95, blockHash: chain.hashOf(95), value: "0x02" }
+      ]);
+      expect(await store.getCursor()).to.deep.equal({ blockNumber: 99, blockHash: chain.hashOf(99) });
+    });
+
+    it("rolls back committed chunks when a reorg found mid-read reaches below the chunk", async function () {
+      chain.afterLogs = () => {
+        if (chain.getLogsCalls.length === 2) chain.reorg(40, 99, [write(45, "0x04")]);
+      };
+      await indexer().sync();
+
+      expect(changes.flatMap(change => change.removed).map(event => event.blockNumber)).to.deep.equal([50]);
+      expect(await stored(store)).to.deep.equal([
+        { blockNumber: 5, blockHash: chain.hashOf(5), value: "0x01" },
+        { blockNumber: 45, blockHash: chain.hashOf(45), value: "0x04" }
+      ]);
+    });
+
+    it("gives up when the blocks keep changing under every read", async function () {
+      chain.afterLogs = () => chain.reorg(90, 99, [write(95, ethers.hexlify(ethers.randomBytes(4)))]);
+      await expect(indexer().sync()).to.be.rejectedWith(/kept changing while their logs were read/);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+// test/Exploration.ts
+// The rules a run is played and replayed under, on small hand-built floors:
+// rooms in a row joined by corridors, so every move, search and staircase is
+// known up front. What a roll decides is only checked for its bounds; the
+// golden runs pin the rolls themselves.
+import { expect } from "chai";
+import { DungeonMap, Room, RoomType, Tile } from "../frontend/web/src/game/dungeonMap";
+import {
+  ExplorationAction,
+  ExplorationSetup,
+  ExplorationState,
+  applyAction,
+  availableMoves,
+  canAscend,
+  canDescend,
+  canRetreat,
+  decodeActions,
+  encodeActions,
+  replayExploration,
+  startExploration,
+  visibleRooms
+} from "../frontend/web/src/game/exploration";
+import { partyStats } from "../frontend/web/src/game/combat";
+import { deriveGenerationParams } from "../frontend/web/src/game/ruleset";
+
+const STRONG = { strength: 300, agility: 300, intelligence: 300 };
+const WEAK = { strength: 0, agility: 0, intelligence: 0 };
+
+// One-tile rooms at every other column of a single row, each joined to the next by a corridor tile
+const floorOf = (floor: number, types: RoomType[], tier = 1): DungeonMap => {
+  const width = types.length * 2 - 1;
+  const tiles: Tile[][] = [Array.from({ length: width }, (_, x) => (x % 2 === 0 ? { kind: "floor", roomId: x / 2 } : { kind: "corridor", roomId: null }))];
+  const rooms: Room[] = types.map((type, id) => ({
+    id,
+    bounds: { x: id * 2, y: 0, width: 1, height: 1 },
+    center: { x: id * 2, y: 0 },
+    type,
+    monsters: type === "monster" ? 2 : type === "boss" ? 1 : 0,
+    monsterTier: type === "monster" ? tier : type === "boss" ? tier + 1 : 0,
+    loot: ["treasure", "secret", "puzzle", "boss"].includes(type) ? "rare" : null
+  }));
+  const corridors = types.slice(1).map((_, id) => ({
+    id,
+    from: id,
+    to: id + 1,
+    path: [{ x: id * 2, y: 0 }, { x: id * 2 + 1, y: 0 }, { x: id * 2 + 2, y: 0 }]
+  }));
+  return {
+    width,
+    height: 1,
+    floor,
+    strategy: "bsp",
+    tiles,
+    rooms,
+    corridors,
+    doors: [],
+    entrance: 0,
+    exit: types.findIndex(type => type === "stairs" || type === "boss"),
+    params: deriveGenerationParams(STRONG)
+  };
+};
+
+const TWO_FLOORS: DungeonMap[] = [
+  floorOf(0, ["entrance", "monster", "treasure", "stairs", "secret"]),
+  floorOf(1, ["entrance", "puzzle", "boss"])
+];
+
+const setupOf = (floors: DungeonMap[], party = STRONG, seed = 42): ExplorationSetup => ({ floors, seed, party });
+
+const play = (setup: ExplorationSetup, actions: ExplorationAction[], state = startExploration(setup)) =>
+  actions.reduce((current, action) => applyAction(setup, current, action), state);
+
+// Attacks until the party or the room's monsters are down
+const fightOut = (setup: ExplorationSetup, state: ExplorationState) => {
+  let current = state;
+  while (current.encounter && !current.outcome) current = applyAction(setup, current, { type: "attack" });
+  return current;
+};
+
+describe("Exploration", function () {
+  it("starts at the first floor's entrance with full health and secret rooms hidden", function () {
+    const setup = setupOf(TWO_FLOORS);
+    const state = startExploration(setup);
+    const { maxHp, maxMana } = partyStats(STRONG);
+    expect(state).to.include({ turn: 0, floor: 0, position: 0, previous: null, hp: maxHp, maxHp, mana: maxMana, outcome: null });
+    expect(state.floors[0].visited).to.deep.equal([true, false, false, false, false]);
+    expect(state.floors[1].visited).to.deep.equal([false, false, false]);
+    expect(state.floors[0].discovered).to.deep.equal([true, true, true, true, false]);
+    expect(availableMoves(setup, state)).to.deep.equal([1]);
+    expect(visibleRooms(setup, state)).to.deep.equal([true, true, false, false, false]);
+  });
+
+  it("only moves along corridors and stops for monsters until they are beaten", function () {
+    const setup = setupOf(TWO_FLOORS);
+    expect(() => play(setup, [{ type: "move", roomId: 2 }])).to.throw("Cannot move to room #2");
+
+    const ambushed = play(setup, [{ type: "move", roomId: 1 }]);
+    expect(ambushed.encounter?.monsters).to.have.length(2);
+    expect(availableMoves(setup, ambushed)).to.deep.equal([]);
+    expect(() => applyAction(setup, ambushed, { type: "move", roomId: 2 })).to.throw("Cannot move to room #2");
+
+    const cleared = fightOut(setup, ambushed);
+    expect(cleared).to.include({ monstersDefeated: 2, outcome: null, encounter: null });
+    expect(cleared.floors[0].cleared[1]).to.equal(true);
+    expect(availableMoves(setup, cleared)).to.deep.equal([0, 2]);
+
+    const looted = applyAction(setup, cleared, { type: "move", roomId: 2 });
+    expect(looted.treasuresFound).to.equal(1);
+    expect(looted.log[looted.log.length - 1]).to.equal("Found rare loot.");
+  });
+
+  it("leads fleeing parties back where they came from without reviving the fallen", function () {
+    const setup = setupOf(TWO_FLOORS);
+    const ambushed = play(setup, [{ type: "move", roomId: 1 }]);
+    const fled = applyAction(setup, ambushed, { type: "flee" });
+    expect(fled).to.include({ position: 0, previous: 1, encounter: null });
+    expect(fled.hp).to.be.at.most(ambushed.hp);
+    expect(fled.floors[0].monstersLeft[1]).to.equal(2);
+    expect(() => applyAction(setup, fled, { type: "flee" })).to.throw("Nowhere to flee to");
+  });
+
+  it("finds secret rooms only by searching next to them", function () {
+    const setup = setupOf(TWO_FLOORS);
+    let state = fightOut(setup, play(setup, [{ type: "move", roomId: 1 }]));
+    state = play(setup, [{ type: "move", roomId: 2 }, { type: "move", roomId: 3 }], state);
+    expect(availableMoves(setup, state)).to.deep.equal([2]);
+
+    for (let tries = 0; tries < 20 && !state.floors[0].discovered[4]; tries++) state = applyAction(setup, state, { type: "search" });
+    expect(state.floors[0].discovered[4]).to.equal(true);
+    expect(availableMoves(setup, state)).to.deep.equal([2, 4]);
+  });
+
+  it("takes the stairs down to the next entrance and back up to the stairs", function () {
+    const setup = setupOf(TWO_FLOORS);
+    let state = fightOut(setup, play(setup, [{ type: "move", roomId: 1 }]));
+    expect(canDescend(setup, state)).to.equal(false);
+    expect(() => applyAction(setup, state, { type: "descend" })).to.throw("There are no stairs down here");
+
+    state = play(setup, [{ type: "move", roomId: 2 }, { type: "move", roomId: 3 }], state);
+    expect(canDescend(setup, state)).to.equal(true);
+    state = applyAction(setup, state, { type: "descend" });
+    expect(state).to.include({ floor: 1, position: 0, previous: null });
+    expect(state.floors[1].visited[0]).to.equal(true);
+    expect(canRetreat(setup, state)).to.equal(false);
+
+    expect(canAscend(setup, state)).to.equal(true);
+    state = applyAction(setup, state, { type: "ascend" });
+    expect(state).to.include({ floor: 0, position: 3 });
+    expect(state.floors[0].cleared[1]).to.equal(true);
+  });
+
+  it("retreats only from the first floor's entrance", function () {
+    const setup = setupOf(TWO_FLOORS);
+    const start = startExploration(setup);
+    expect(canRetreat(setup, start)).to.equal(true);
+    expect(applyAction(setup, start, { type: "retreat" }).outcome).to.equal("retreat");
+
+    const inside = fightOut(setup, play(setup, [{ type: "move", roomId: 1 }]));
+    expect(() => applyAction(setup, inside, { type: "retreat" })).to.throw("The party can only retreat from the first floor's entrance");
+  });
+
+  it("ends the run in victory when the boss falls and refuses any further action", function () {
+    const setup = setupOf([floorOf(0, ["entrance", "boss"])]);
+    const won = fightOut(setup, play(setup, [{ type: "move", roomId: 1 }]));
+    expect(won).to.include({ outcome: "victory", monstersDefeated: 1, treasuresFound: 1 });
+    expect(() => applyAction(setup, won, { type: "move", roomId: 0 })).to.throw("Run already ended in victory");
+  });
+
+  it("ends the run in a wipe when the party's hit points run out", function () {
+    const setup = setupOf([floorOf(0, ["entrance", "boss"], 5)], WEAK);
+    const lost = fightOut(setup, play(setup, [{ type: "move", roomId: 1 }]));
+    expect(lost).to.include({ outcome: "wipe", hp: 0, encounter: null });
+    expect(lost.log[lost.log.length - 1]).to.equal("The party has been wiped out.");
+  });
+
+  it("replays a recorded action log to the same state", function () {
+    const setup = setupOf(TWO_FLOORS);
+    const played = fightOut(setup, play(setup, [{ type: "move", roomId: 1 }]));
+    const full = play(setup, [{ type: "move", roomId: 2 }, { type: "move", roomId: 3 }, { type: "descend" }, { type: "move", roomId: 1 }], played);
+    const replayed = replayExploration(setup, decodeActions(encodeActions(full.actions)));
+    expect(replayed).to.deep.equal(full);
+  });
+
+  it("encodes actions compactly and rejects unknown codes", function () {
+    const actions: ExplorationAction[] = [
+      { type: "move", roomId: 12 },
+      { type: "attack" },
+      { type: "cast", spell: "fireball" },
+      { type: "cast", spell: "heal" },
+      { type: "flee" },
+      { type: "solve" },
+      { type: "search" },
+      { type: "descend" },
+      { type: "ascend" },
+      { type: "retreat" }
+    ];
+    expect(encodeActions(actions)).to.equal("m12 a f h x s q d u r");
+    expect(decodeActions(" m12 a  f h x s q d u r ")).to.deep.equal(actions);
+    expect(decodeActions("")).to.deep.equal([]);
+    expect(() => decodeActions("m1 z")).to.throw('Unknown action code "z"');
+  });
+});
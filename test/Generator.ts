@@ -0,0 +1,76 @@
+// test/Generator.ts
+// Every room a floor generates must be reachable on foot from its entrance,
+// through corridors and doors, hidden ones included. The generator refuses to
+// hand out a floor that breaks this, so a bad seed fails loudly instead of
+// stranding a party.
+import { expect } from "chai";
+import * as dungeonMap from "../frontend/web/src/game/dungeonMap";
+import { DungeonMap, distancesFrom, findUnreachableRooms } from "../frontend/web/src/game/dungeonMap";
+import { generateDungeon } from "../frontend/web/src/game/generator";
+import { deriveGenerationParams, paramsForFloor } from "../frontend/web/src/game/ruleset";
+
+const SEEDS = Array.from({ length: 24 }, (_, i) => 1000 + i * 7919);
+
+const WEAK = deriveGenerationParams({ strength: 0, agility: 0, intelligence: 0 });
+const MAXED = deriveGenerationParams({ strength: 300, agility: 300, intelligence: 300 });
+
+// Walls in every tile of a room, cutting it off from the rest of the floor
+const wallOff = (map: DungeonMap, roomId: number): DungeonMap => ({
+  ...map,
+  tiles: map.tiles.map(row => row.map(tile => (tile.roomId === roomId ? { ...tile, kind: "wall" } : tile)))
+});
+
+describe("Generator", function () {
+  it("reaches every room from the entrance, for both layouts and any party", function () {
+    const strategies = new Set<string>();
+    for (const seed of SEEDS) {
+      for (const params of [WEAK, MAXED]) {
+        const map = generateDungeon(seed, params);
+        strategies.add(map.strategy);
+        expect(findUnreachableRooms(map), `seed ${seed}`).to.deep.equal([]);
+        const distances = distancesFrom(map, map.rooms[map.entrance].center);
+        for (const door of map.doors) expect(distances[door.position.y][door.position.x], `seed ${seed}`).to.be.at.least(0);
+      }
+    }
+    expect([...strategies].sort()).to.deep.equal(["bsp", "cellular"]);
+  });
+
+  it("reaches the stairs on every floor and the boss on the last", function () {
+    for (const seed of SEEDS.slice(0, 10)) {
+      for (let floor = 0; floor < 3; floor++) {
+        const map = generateDungeon(seed + floor, paramsForFloor(MAXED, floor), floor, 3);
+        expect(findUnreachableRooms(map)).to.deep.equal([]);
+        expect(map.rooms[map.exit].type).to.equal(floor === 2 ? "boss" : "stairs");
+        expect(map.exit).to.not.equal(map.entrance);
+      }
+    }
+  });
+
+  it("places the exit at the room furthest from the entrance on foot", function () {
+    for (const seed of SEEDS.slice(0, 10)) {
+      const map = generateDungeon(seed, WEAK);
+      const distances = distancesFrom(map, map.rooms[map.entrance].center);
+      const exitDistance = distances[map.rooms[map.exit].center.y][map.rooms[map.exit].center.x];
+      for (const room of map.rooms) expect(distances[room.center.y][room.center.x]).to.be.at.most(exitDistance);
+    }
+  });
+
+  it("finds a room cut off from the entrance", function () {
+    const map = generateDungeon(SEEDS[0], WEAK);
+    const cutOff = map.rooms.find(room => room.id !== map.entrance)!;
+    const walled = wallOff(map, cutOff.id);
+    expect(findUnreachableRooms(walled).map(room => room.id)).to.include(cutOff.id);
+  });
+
+  it("refuses to return a floor with unreachable rooms", function () {
+    const modules = dungeonMap as { findUnreachableRooms: typeof findUnreachableRooms };
+    const original = modules.findUnreachableRooms;
+    modules.findUnreachableRooms = map => map.rooms.filter(room => room.id !== map.entrance).slice(0, 2);
+    try {
+      expect(() => generateDungeon(SEEDS[0], WEAK)).to.throw(`Seed ${SEEDS[0]} produced unreachable rooms: `);
+    } finally {
+      modules.findUnreachableRooms = original;
+    }
+    expect(() => generateDungeon(SEEDS[0], WEAK)).to.not.throw();
+  });
+});
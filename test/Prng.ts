@@ -0,0 +1,64 @@
+// test/Prng.ts
+// The seeded PRNG every dungeon is generated and replayed from. Its sequences
+// are pinned: a change here would move every layout and invalidate every
+// recorded run, so the expected numbers must never be updated in place.
+import { expect } from "chai";
+import { createRng, deriveSeed } from "../frontend/web/src/game/prng";
+
+const take = (seed: number, count: number) => {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, () => rng.next());
+};
+
+describe("Prng", function () {
+  it("produces the pinned xoshiro128** sequence for a seed", function () {
+    expect(take(42, 5)).to.deep.equal([2837322924, 544945897, 479756282, 3500138142, 339756180]);
+    expect(take(0, 3)).to.deep.equal([3809008728, 1133695204, 53579671]);
+  });
+
+  it("repeats a sequence for the same seed and diverges for another", function () {
+    expect(take(1337, 100)).to.deep.equal(take(1337, 100));
+    expect(take(1337, 100)).to.not.deep.equal(take(1338, 100));
+  });
+
+  it("reads seeds as unsigned 32-bit integers", function () {
+    expect(take(-1, 10)).to.deep.equal(take(4294967295, 10));
+    expect(take(2 ** 32, 10)).to.deep.equal(take(0, 10));
+  });
+
+  it("keeps int, float, pick and shuffle within their ranges", function () {
+    const rng = createRng(7);
+    for (let i = 0; i < 200; i++) {
+      const value = rng.int(-3, 3);
+      expect(value).to.be.within(-3, 3);
+      expect(Number.isInteger(value)).to.equal(true);
+      const float = rng.float();
+      expect(float).to.be.at.least(0).and.below(1);
+    }
+    expect(rng.int(5, 5)).to.equal(5);
+    expect(["a", "b", "c"]).to.include(rng.pick(["a", "b", "c"]));
+    expect(rng.shuffle([1, 2, 3, 4, 5, 6]).sort()).to.deep.equal([1, 2, 3, 4, 5, 6]);
+  });
+
+  it("refuses empty ranges and lists", function () {
+    const rng = createRng(7);
+    expect(() => rng.int(2, 1)).to.throw(/Invalid range/);
+    expect(() => rng.pick([])).to.throw(/empty list/);
+  });
+
+  describe("deriveSeed", function () {
+    it("derives the pinned seeds", function () {
+      expect(deriveSeed(42)).to.equal(42);
+      expect(deriveSeed(42, 0)).to.equal(3961403696);
+      expect(deriveSeed(42, 1)).to.equal(3681503581);
+      expect(deriveSeed(42, 0, 1)).to.equal(901181945);
+      expect(deriveSeed(42, 1, 0)).to.equal(2450345758);
+    });
+
+    it("gives every floor of a dungeon its own seed", function () {
+      const floors = Array.from({ length: 64 }, (_, floor) => deriveSeed(123456789, floor));
+      expect(new Set(floors).size).to.equal(floors.length);
+      for (const seed of floors) expect(seed).to.be.within(0, 2 ** 32 - 1);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+// test/RecordOwnership.ts
+// Which write to a dungeon record key the list shows. Writes go through a
+// UniversalAdapter-shaped store from the owner and from an attacker, their
+// DataStored logs are decoded the way the event indexer does, and each key is
+// resolved from that history. The dungeon's party submission, which names its
+// creator, is added as the indexed DungeonGenFHE event it would be.
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { TypedDataDomain } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { UniversalAdapterMock, UniversalAdapterMock__factory } from "../types";
+import { DecodedDungeonRecord, StoredDungeonRecord, decodeDungeonRecord, encodeDungeonRecord } from "../frontend/web/src/records/dungeonRecord";
+import { checkRecordAuthor, recordDomain, signDungeonRecord } from "../frontend/web/src/records/recordSignature";
+import { resolveRecord } from "../frontend/web/src/records/recordOwnership";
+import { IndexedEvent, createEventInterface, dataWrites, decodeLog, eventId } from "../frontend/web/src/indexer/events";
+import { dungeonCreator, dungeonPartyId, partyCreators, recordKey } from "../frontend/web/src/indexer/dungeonKeys";
+
+type RecordFields = Omit<StoredDungeonRecord, "schema">;
+
+const DUNGEON_ID = "dungeon-1760000000000-k3x9";
+
+describe("RecordOwnership", function () {
+  let owner: HardhatEthersSigner;
+  let attacker: HardhatEthersSigner;
+  let adapter: UniversalAdapterMock;
+  let domain: TypedDataDomain;
+
+  const newDungeon = (recordOwner: string): RecordFields => ({
+    batchId: 7,
+    timestamp: 1760000000,
+    owner: recordOwner,
+    dungeonName: "The Sunken Vault",
+    status: "generating",
+    generatorVersion: 2,
+    partySize: 1,
+    party: [{ name: "Brakka", characterClass: "warrior" }],
+    monstersDefeated: 0,
+    treasuresFound: 0,
+    outcome: null,
+    turns: null,
+    actionLog: null,
+    floorProgress: []
+  });
+
+  const completedRun = (recordOwner: string): RecordFields => ({
+    ...newDungeon(recordOwner),
+    status: "completed",
+    monstersDefeated: 3,
+    treasuresFound: 1,
+    outcome: "victory",
+    turns: 5,
+    actionLog: "m1 a a m2 a",
+    floorProgress: [{ roomsVisited: 2, monstersDefeated: 3, treasuresFound: 1 }]
+  });
+
+  // A record as its signer stores it, owner field included
+  const signedRecord = async (signer: HardhatEthersSigner, fields: RecordFields) =>
+    encodeDungeonRecord(fields, await signDungeonRecord(signer, domain, DUNGEON_ID, fields));
+
+  // What the app wrote once dungeons came from batches, before schemas and signatures
+  const legacyRecord = (recordOwner: string) => ethers.toUtf8Bytes(JSON.stringify({
+    batchId: 3,
+    timestamp: 1750000000,
+    owner: recordOwner,
+    dungeonName: "Old Mine",
+    status: "completed",
+    monstersDefeated: 4,
+    treasuresFound: 1
+  }));
+
+  const write = async (signer: HardhatEthersSigner, value: Uint8Array | string) =>
+    (await adapter.connect(signer).setData(recordKey(DUNGEON_ID), value)).wait();
+
+  // The first character of the dungeon's party, submitted before its record is written
+  const submission = (provider: string): IndexedEvent => ({
+    id: eventId(0, 0),
+    address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    blockNumber: 0,
+    blockHash: ethers.ZeroHash,
+    transactionHash: ethers.ZeroHash,
+    logIndex: 0,
+    name: "PartyAttributesSubmitted",
+    batchId: 7,
+    provider,
+    partyId: dungeonPartyId(DUNGEON_ID)
+  });
+
+  const check = (dungeonId: string, _value: string, decoded: DecodedDungeonRecord, sender: string | null) =>
+    checkRecordAuthor(domain, dungeonId, decoded, sender);
+
+  // Resolves the key as the list does; creator is whoever submitted the party, null for none indexed
+  const resolve = async (creator: string | null = owner.address) => {
+    const iface = createEventInterface(UniversalAdapterMock__factory.abi);
+    const logs = await ethers.provider.getLogs({ address: await adapter.getAddress(), fromBlock: 0 });
+    const events = logs.map(log => decodeLog(iface, log)).filter((event): event is IndexedEvent => event !== null);
+    const creators = partyCreators(creator ? [submission(creator), ...events] : events);
+    const writes = dataWrites(events).get(recordKey(DUNGEON_ID)) ?? [];
+    return resolveRecord(DUNGEON_ID, writes, check, dungeonCreator(creators, DUNGEON_ID));
+  };
+
+  const shown = async (creator?: string | null) => {
+    const resolved = await resolve(creator);
+    if (!resolved || resolved.rejected) return expect.fail(`Record not shown: ${resolved?.rejected.reason ?? "key is empty"}`);
+    return resolved.decoded.record;
+  };
+
+  before(async function () {
+    [owner, attacker] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    adapter = await new UniversalAdapterMock__factory(owner).deploy();
+    domain = recordDomain(31337, await adapter.getAddress());
+  });
+
+  it("shows the owner's newest signed record", async function () {
+    await write(owner, await signedRecord(owner, newDungeon(owner.address)));
+    await write(owner, await signedRecord(owner, completedRun(owner.address)));
+    expect(await shown()).to.include({ owner: owner.address, status: "completed" });
+  });
+
+  it("ignores a record someone else signed for themselves and wrote over the owner's", async function () {
+    await write(owner, await signedRecord(owner, newDungeon(owner.address)));
+    await write(attacker, await signedRecord(attacker, completedRun(attacker.address)));
+    expect(await shown()).to.include({ owner: owner.address, status: "generating" });
+  });
+
+  it("ignores an unsigned legacy record written over the owner's", async function () {
+    await write(owner, await signedRecord(owner, newDungeon(owner.address)));
+    await write(attacker, legacyRecord(attacker.address));
+    expect(await shown()).to.include({ owner: owner.address, dungeonName: "The Sunken Vault" });
+  });
+
+  it("ignores garbage written over the owner's record", async function () {
+    await write(owner, await signedRecord(owner, newDungeon(owner.address)));
+    await write(attacker, ethers.randomBytes(48));
+    await write(attacker, "0x");
+    expect(await shown()).to.include({ owner: owner.address, status: "generating" });
+  });
+
+  it("ignores the owner's own older record written back by someone else", async function () {
+    const older = await signedRecord(owner, newDungeon(owner.address));
+    await write(owner, older);
+    await write(owner, await signedRecord(owner, completedRun(owner.address)));
+    await write(attacker, older);
+    expect(await shown()).to.include({ status: "completed" });
+  });
+
+  it("gives the key to the party's submitter even when someone else wrote it first", async function () {
+    await write(attacker, await signedRecord(attacker, newDungeon(attacker.address)));
+    await write(owner, await signedRecord(owner, newDungeon(owner.address)));
+    expect(await shown()).to.include({ owner: owner.address, status: "generating" });
+  });
+
+  it("shows the owner's signed record written after a stranger's garbage", async function () {
+    await write(attacker, ethers.randomBytes(48));
+    await write(owner, await signedRecord(owner, newDungeon(owner.address)));
+    expect(await shown()).to.include({ owner: owner.address, dungeonName: "The Sunken Vault" });
+  });
+
+  it("rejects a key the party's submitter never wrote", async function () {
+    await write(attacker, await signedRecord(attacker, newDungeon(attacker.address)));
+    const resolved = await resolve();
+    expect(resolved?.rejected).to.deep.equal({ reason: `Never written by ${owner.address}, who submitted the party`, tampered: true });
+  });
+
+  it("rejects a record read from the contract that names someone other than the party's submitter", async function () {
+    const value = ethers.hexlify(await signedRecord(attacker, newDungeon(attacker.address)));
+    const resolved = resolveRecord(DUNGEON_ID, [{ sender: null, value }], check, owner.address);
+    expect(resolved?.rejected).to.deep.equal({
+      reason: `Names ${attacker.address} as owner, but the party was submitted by ${owner.address}`,
+      tampered: true
+    });
+    expect(decodeDungeonRecord(value).record.owner).to.equal(attacker.address);
+  });
+
+  it("gives the key to its first writer when no party submission is indexed", async function () {
+    await write(attacker, await signedRecord(attacker, newDungeon(attacker.address)));
+    await write(owner, await signedRecord(owner, completedRun(owner.address)));
+    expect(await shown(null)).to.include({ owner: attacker.address, status: "generating" });
+  });
+
+  it("falls back to the owner's previous write when the newest does not check out", async function () {
+    await write(owner, await signedRecord(owner, newDungeon(owner.address)));
+    await write(owner, await signedRecord(owner, completedRun(attacker.address)));
+    expect(await shown()).to.include({ owner: owner.address, status: "generating" });
+  });
+
+  it("rejects a key whose owner never wrote a valid record, with the newest write's reason", async function () {
+    await write(owner, await signedRecord(attacker, newDungeon(attacker.address)));
+    await write(attacker, await signedRecord(attacker, newDungeon(attacker.address)));
+    const resolved = await resolve();
+    expect(resolved?.rejected).to.deep.equal({ reason: `Written by ${owner.address}, not the signer ${attacker.address}`, tampered: true });
+  });
+
+  it("accepts an unsigned legacy record from the owner only while nothing was written after it", async function () {
+    await write(owner, legacyRecord(owner.address));
+    expect(await shown()).to.include({ owner: owner.address, dungeonName: "Old Mine" });
+
+    await write(attacker, ethers.randomBytes(48));
+    const resolved = await resolve();
+    expect(resolved?.rejected).to.deep.equal({ reason: "Unsigned record has been written over since", tampered: true });
+  });
+
+  it("treats a key the owner emptied as deleted", async function () {
+    await write(owner, await signedRecord(owner, newDungeon(owner.address)));
+    await write(owner, "0x");
+    expect(await resolve()).to.equal(null);
+  });
+});
@@ -0,0 +1,191 @@
+// test/RpcPool.ts
+// The RPC pool against local JSON-RPC servers that answer eth_blockNumber with
+// a scripted head and delay, or drop the connection to play a dead endpoint.
+// Health checks rank the endpoints; requests that fail in transport move on to
+// the next endpoint, while JSON-RPC errors such as reverts are final.
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { createProviderPool, ProviderPool, ProviderPoolOptions } from "../frontend/web/src/rpcPool";
+
+const CHAIN_ID = 31337;
+const REVERT_DATA = "0x08c379a0" + "00".repeat(64);
+
+// ethers hands out the same answer to identical requests for 250ms, failures included
+const pastRequestCache = () => new Promise(resolve => setTimeout(resolve, 300));
+
+interface EndpointScript {
+  blockNumber?: number;
+  /** Milliseconds before every answer */
+  delay?: number;
+  /** Drop the connection instead of answering */
+  down?: boolean;
+  /** Answer eth_call with a revert */
+  reverts?: boolean;
+}
+
+// One HTTP JSON-RPC server per endpoint; the script can change while the test runs
+class StubEndpoint {
+  script: EndpointScript;
+  calls: string[] = [];
+  url = "";
+  private server = http.createServer((request, response) => this.handle(request, response));
+
+  constructor(script: EndpointScript) {
+    this.script = script;
+  }
+
+  async listen() {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  close() {
+    this.server.closeAllConnections();
+    return new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    let body = "";
+    request.on("data", chunk => { body += chunk; });
+    request.on("end", async () => {
+      const payload = JSON.parse(body);
+      const payloads: { id: number; method: string }[] = Array.isArray(payload) ? payload : [payload];
+      this.calls.push(...payloads.map(p => p.method));
+      if (this.script.delay) await new Promise(resolve => setTimeout(resolve, this.script.delay));
+      if (this.script.down) {
+        request.socket.destroy();
+        return;
+      }
+      const results = payloads.map(({ id, method }) => this.answer(id, method));
+      response.setHeader("content-type", "application/json");
+      response.end(JSON.stringify(Array.isArray(payload) ? results : results[0]));
+    });
+  }
+
+  private answer(id: number, method: string) {
+    if (method === "eth_blockNumber") return { jsonrpc: "2.0", id, result: `0x${(this.script.blockNumber ?? 100).toString(16)}` };
+    if (method === "eth_chainId") return { jsonrpc: "2.0", id, result: `0x${CHAIN_ID.toString(16)}` };
+    if (method === "eth_call" && this.script.reverts) return { jsonrpc: "2.0", id, error: { code: 3, message: "execution reverted", data: REVERT_DATA } };
+    if (method === "eth_call") return { jsonrpc: "2.0", id, result: "0x" };
+    return { jsonrpc: "2.0", id, error: { code: -32601, message: `${method} is not supported` } };
+  }
+}
+
+describe("RpcPool", function () {
+  let endpoints: StubEndpoint[];
+
+  const serve = async (...scripts: EndpointScript[]) => {
+    const started = scripts.map(script => new StubEndpoint(script));
+    for (const endpoint of started) await endpoint.listen();
+    endpoints.push(...started);
+    return started;
+  };
+
+  const pool = (urls: StubEndpoint[], options: Partial<ProviderPoolOptions> = {}): ProviderPool =>
+    createProviderPool({ chainId: CHAIN_ID, urls: urls.map(endpoint => endpoint.url), probeTimeout: 300, requestTimeout: 2000, ...options });
+
+  const order = (rpc: ProviderPool, stubs: StubEndpoint[]) => rpc.status().map(status => stubs.findIndex(stub => stub.url === status.url));
+
+  beforeEach(function () {
+    endpoints = [];
+  });
+
+  afterEach(async function () {
+    for (const endpoint of endpoints) await endpoint.close();
+  });
+
+  it("needs at least one endpoint", function () {
+    expect(() => createProviderPool({ chainId: CHAIN_ID, urls: ["", ""] })).to.throw(/No RPC endpoints configured for chain 31337/);
+  });
+
+  describe("health checks", function () {
+    it("ranks endpoints by probe latency", async function () {
+      const stubs = await serve({ delay: 150 }, { delay: 0 }, { delay: 60 });
+      const rpc = pool(stubs);
+      await rpc.check();
+
+      expect(order(rpc, stubs)).to.deep.equal([1, 2, 0]);
+      expect(rpc.status().every(status => status.healthy && status.latency !== null && status.blockNumber === 100)).to.equal(true);
+    });
+
+    it("moves endpoints that fail, time out or trail the head behind the healthy ones", async function () {
+      const stubs = await serve({ down: true }, { delay: 1000 }, { blockNumber: 90 }, { blockNumber: 100 });
+      const rpc = pool(stubs);
+      await rpc.check();
+
+      const [first, ...rest] = rpc.status();
+      expect(first).to.include({ url: stubs[3].url, healthy: true, lastError: null });
+      expect(rest.map(status => status.healthy)).to.deep.equal([false, false, false]);
+      const errors = new Map(rest.map(status => [status.url, status.lastError]));
+      expect(errors.get(stubs[1].url)).to.match(/timed out after 300ms/);
+      expect(errors.get(stubs[2].url)).to.equal("10 blocks behind");
+    });
+
+    it("takes an endpoint back once it answers again", async function () {
+      const stubs = await serve({ down: true }, { delay: 30 });
+      const rpc = pool(stubs);
+      await rpc.check();
+      expect(order(rpc, stubs)).to.deep.equal([1, 0]);
+
+      stubs[0].script = {};
+      await pastRequestCache();
+      await rpc.check();
+      expect(order(rpc, stubs)).to.deep.equal([0, 1]);
+      expect(rpc.status()[0]).to.include({ healthy: true, lastError: null });
+    });
+  });
+
+  describe("failover", function () {
+    it("retries a request on the next endpoint when the transport fails", async function () {
+      const stubs = await serve({ down: true, blockNumber: 7 }, { blockNumber: 8 });
+      const rpc = pool(stubs);
+
+      expect(await rpc.provider.getBlockNumber()).to.equal(8);
+      expect(stubs[0].calls).to.deep.equal(["eth_blockNumber"]);
+      expect(order(rpc, stubs)).to.deep.equal([1, 0]);
+      expect(rpc.status()[1].healthy).to.equal(false);
+    });
+
+    it("does not fail over on a JSON-RPC error such as a revert", async function () {
+      const stubs = await serve({ reverts: true }, {});
+      const rpc = pool(stubs);
+
+      await expect(rpc.provider.call({ to: "0x5FbDB2315678afecb367f032d93F642f64180aa3", data: "0x12345678" }))
+        .to.be.rejectedWith(/execution reverted/);
+      expect(stubs[1].calls).to.deep.equal([]);
+      expect(order(rpc, stubs)).to.deep.equal([0, 1]);
+      expect(rpc.status()[0].healthy).to.equal(true);
+    });
+
+    it("rejects a request once every endpoint has failed", async function () {
+      const stubs = await serve({ down: true }, { down: true });
+      const rpc = pool(stubs);
+
+      await expect(rpc.provider.getBlockNumber()).to.be.rejected;
+      expect(stubs.map(stub => stub.calls.length)).to.deep.equal([1, 1]);
+      expect(rpc.status().every(status => !status.healthy)).to.equal(true);
+    });
+  });
+
+  describe("ready", function () {
+    it("resolves as soon as one endpoint answers", async function () {
+      const stubs = await serve({ down: true }, { delay: 1000 }, {});
+      const rpc = pool(stubs);
+
+      expect(await rpc.ready()).to.equal(rpc.provider);
+      await rpc.check();
+    });
+
+    it("rejects when no endpoint answers, and tries again on the next call", async function () {
+      const stubs = await serve({ down: true }, { down: true });
+      const rpc = pool(stubs);
+      await expect(rpc.ready()).to.be.rejectedWith(/All RPC endpoints failed for chain 31337/);
+
+      stubs[1].script = {};
+      await pastRequestCache();
+      expect(await rpc.ready()).to.equal(rpc.provider);
+      await rpc.check();
+    });
+  });
+});
@@ -0,0 +1,201 @@
+// test/generator.golden.ts
+// Freezes the output of every registered dungeon generator version, and how
+// runs played in its dungeons replay under its exploration rules. A failing
+// case means a registered version changed its floors or its rules; add a new
+// version in frontend/web/src/game/registry.ts instead. Only a brand new
+// version may be recorded, with UPDATE_GOLDEN=1 npx hardhat test test/generator.golden.ts
+import { expect } from "chai";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { generatorVersions, getGenerator, legacyGeneratorVersion } from "../frontend/web/src/game/registry";
+import {
+  EXPLORATION_RULES_VERSION,
+  ExplorationAction,
+  ExplorationSetup,
+  ExplorationState,
+  applyAction,
+  availableMoves,
+  canAscend,
+  canCastSpell,
+  canDescend,
+  canRetreat,
+  canSolve,
+  decodeActions,
+  encodeActions,
+  replayExploration,
+  startExploration
+} from "../frontend/web/src/game/exploration";
+import { createRng } from "../frontend/web/src/game/prng";
+
+interface GoldenCase {
+  seed: number;
+  totals: { strength: number; agility: number; intelligence: number };
+  floors: number;
+  rooms: number[];
+  sha256: string;
+}
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+const CASES: Pick<GoldenCase, "seed" | "totals">[] = [
+  { seed: 0, totals: { strength: 1, agility: 1, intelligence: 1 } },
+  { seed: 1, totals: { strength: 50, agility: 50, intelligence: 50 } },
+  { seed: 42, totals: { strength: 99, agility: 20, intelligence: 60 } },
+  { seed: 1337, totals: { strength: 150, agility: 210, intelligence: 90 } },
+  { seed: 65535, totals: { strength: 300, agility: 300, intelligence: 300 } },
+  { seed: 123456789, totals: { strength: 594, agility: 12, intelligence: 301 } },
+  { seed: 2147483647, totals: { strength: 75, agility: 240, intelligence: 180 } },
+  { seed: 4294967295, totals: { strength: 33, agility: 66, intelligence: 99 } }
+];
+
+interface GoldenRun {
+  seed: number;
+  totals: GoldenCase["totals"];
+  explorationRules: number;
+  actionLog: string;
+  outcome: ExplorationState["outcome"];
+  turn: number;
+  floor: number;
+  hp: number;
+  mana: number;
+  monstersDefeated: number;
+  treasuresFound: number;
+  /** Everything the run leaves behind except its log text, which may be reworded freely */
+  sha256: string;
+}
+
+// Long enough for most runs to reach an outcome, short enough to keep the fixtures small
+const MAX_RUN_TURNS = 400;
+
+const fixturePath = (version: number) => path.join(FIXTURES_DIR, `generator-v${version}.json`);
+const runsPath = (version: number) => path.join(FIXTURES_DIR, `runs-v${version}.json`);
+
+// Plays a run by picking a random legal action each turn, so fights, flights, spells,
+// puzzles, searches and stairs all end up in the recorded logs
+const playRun = (setup: ExplorationSetup, seed: number): ExplorationState => {
+  const rng = createRng(seed);
+  let state = startExploration(setup);
+  while (!state.outcome && state.turn < MAX_RUN_TURNS) {
+    const options: ExplorationAction[] = [];
+    if (state.encounter) {
+      options.push({ type: "attack" }, { type: "attack" });
+      if (state.previous !== null) options.push({ type: "flee" });
+      if (canCastSpell(setup, state, "fireball")) options.push({ type: "cast", spell: "fireball" });
+      if (canCastSpell(setup, state, "heal")) options.push({ type: "cast", spell: "heal" });
+    } else {
+      availableMoves(setup, state).forEach(roomId => options.push({ type: "move", roomId }));
+      options.push({ type: "search" });
+      if (canSolve(setup, state)) options.push({ type: "solve" });
+      if (canDescend(setup, state)) options.push({ type: "descend" }, { type: "descend" });
+      if (canAscend(setup, state)) options.push({ type: "ascend" });
+      if (canRetreat(setup, state) && state.turn > MAX_RUN_TURNS / 2) options.push({ type: "retreat" });
+    }
+    state = applyAction(setup, state, options[rng.int(0, options.length - 1)]);
+  }
+  return state;
+};
+
+const summarizeRun = (seed: number, totals: GoldenCase["totals"], explorationRules: number, state: ExplorationState): GoldenRun => {
+  const { log, actions, ...rest } = state;
+  return {
+    seed,
+    totals,
+    explorationRules,
+    actionLog: encodeActions(actions),
+    outcome: state.outcome,
+    turn: state.turn,
+    floor: state.floor,
+    hp: state.hp,
+    mana: state.mana,
+    monstersDefeated: state.monstersDefeated,
+    treasuresFound: state.treasuresFound,
+    sha256: createHash("sha256").update(JSON.stringify(rest)).digest("hex")
+  };
+};
+
+const setupFor = (version: number, seed: number, totals: GoldenCase["totals"]): ExplorationSetup =>
+  ({ floors: getGenerator(version).generate(seed, totals), seed, party: totals });
+
+const render = (version: number, seed: number, totals: GoldenCase["totals"]): GoldenCase => {
+  const floors = getGenerator(version).generate(seed, totals);
+  return {
+    seed,
+    totals,
+    floors: floors.length,
+    rooms: floors.map(floor => floor.rooms.length),
+    sha256: createHash("sha256").update(JSON.stringify(floors)).digest("hex")
+  };
+};
+
+describe("Dungeon generator golden outputs", function () {
+  for (const version of generatorVersions()) {
+    describe(`v${version}`, function () {
+      const file = fixturePath(version);
+
+      const runsFile = runsPath(version);
+
+      if (process.env.UPDATE_GOLDEN && !fs.existsSync(file)) {
+        before(function () {
+          fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+          const cases = CASES.map(({ seed, totals }) => render(version, seed, totals));
+          fs.writeFileSync(file, JSON.stringify(cases, null, 2) + "\n");
+        });
+      }
+
+      if (process.env.UPDATE_GOLDEN && !fs.existsSync(runsFile)) {
+        before(function () {
+          const { explorationRules } = getGenerator(version);
+          const runs = CASES.map(({ seed, totals }) => summarizeRun(seed, totals, explorationRules, playRun(setupFor(version, seed, totals), seed)));
+          fs.writeFileSync(runsFile, JSON.stringify(runs, null, 2) + "\n");
+        });
+      }
+
+      it("has a recorded fixture", function () {
+        expect(fs.existsSync(file), `missing ${path.relative(process.cwd(), file)}`).to.equal(true);
+      });
+
+      it("regenerates every recorded dungeon byte-for-byte", function () {
+        const golden: GoldenCase[] = JSON.parse(fs.readFileSync(file, "utf8"));
+        expect(golden.length).to.be.greaterThan(0);
+        for (const expected of golden) {
+          expect(render(version, expected.seed, expected.totals), `seed ${expected.seed}`).to.deep.equal(expected);
+        }
+      });
+
+      it("is deterministic within a process", function () {
+        const [{ seed, totals }] = CASES;
+        expect(render(version, seed, totals)).to.deep.equal(render(version, seed, totals));
+      });
+
+      it("is played under the exploration rules its runs were recorded with", function () {
+        expect(fs.existsSync(runsFile), `missing ${path.relative(process.cwd(), runsFile)}`).to.equal(true);
+        const runs: GoldenRun[] = JSON.parse(fs.readFileSync(runsFile, "utf8"));
+        const { explorationRules } = getGenerator(version);
+        for (const run of runs) expect(run.explorationRules, `seed ${run.seed}`).to.equal(explorationRules);
+        // Only the current rules ship; keep the old ones next to them before bumping EXPLORATION_RULES_VERSION
+        expect(explorationRules).to.equal(EXPLORATION_RULES_VERSION);
+      });
+
+      it("replays every recorded run to the same state", function () {
+        const runs: GoldenRun[] = JSON.parse(fs.readFileSync(runsFile, "utf8"));
+        expect(runs.length).to.be.greaterThan(0);
+        for (const expected of runs) {
+          const replayed = replayExploration(setupFor(version, expected.seed, expected.totals), decodeActions(expected.actionLog));
+          expect(summarizeRun(expected.seed, expected.totals, expected.explorationRules, replayed), `seed ${expected.seed}`).to.deep.equal(expected);
+        }
+      });
+    });
+  }
+
+  it("rejects unknown versions", function () {
+    expect(() => getGenerator(0)).to.throw("Unknown dungeon generator version 0");
+  });
+
+  it("rebuilds records from before the registry with the generator they were played on", function () {
+    // Runs recorded before multi-floor dungeons carry an outcome but no floorProgress
+    expect(getGenerator(legacyGeneratorVersion({ outcome: "wipe" })).generate(7, CASES[1].totals)).to.have.length(1);
+    expect(legacyGeneratorVersion({ outcome: "victory", floorProgress: [] })).to.equal(2);
+    expect(legacyGeneratorVersion({})).to.equal(2);
+  });
+});
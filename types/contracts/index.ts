@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as dungeonGenFheSol from "./Dungeon_Gen_FHE.sol";
+export type { dungeonGenFheSol };
+import type * as mocks from "./mocks";
+export type { mocks };
@@ -20,9 +20,9 @@ import type {
   TypedLogDescription,
   TypedListener,
   TypedContractMethod,
-} from "./common";
+} from "../../common";
 
-export interface UniversalAdapterInterface extends Interface {
+export interface UniversalAdapterMockInterface extends Interface {
   getFunction(
     nameOrSignature: "getData" | "isAvailable" | "setData"
   ): FunctionFragment;
@@ -61,11 +61,11 @@ export namespace DataStoredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export interface UniversalAdapter extends BaseContract {
-  connect(runner?: ContractRunner | null): UniversalAdapter;
+export interface UniversalAdapterMock extends BaseContract {
+  connect(runner?: ContractRunner | null): UniversalAdapterMock;
   waitForDeployment(): Promise<this>;
 
-  interface: UniversalAdapterInterface;
+  interface: UniversalAdapterMockInterface;
 
   queryFilter<TCEvent extends TypedContractEvent>(
     event: TCEvent,
@@ -0,0 +1,716 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  DungeonGenFHE,
+  DungeonGenFHEInterface,
+} from "../../../contracts/Dungeon_Gen_FHE.sol/DungeonGenFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchFinalized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "strength",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "agility",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "intellect",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "seed",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DungeonSeedGenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "partyId",
+        type: "bytes32",
+      },
+    ],
+    name: "PartyAttributesSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "allowBatchTotals",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "open",
+        type: "bool",
+      },
+      {
+        internalType: "euint32",
+        name: "totalEncryptedPartyStrength",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "totalEncryptedPartyAgility",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "totalEncryptedPartyIntellect",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "dungeonSeed",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "generateDungeonSeed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasTotalsAccess",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedStrength",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAgility",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedIntellect",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32",
+        name: "partyId",
+        type: "bytes32",
+      },
+    ],
+    name: "submitPartyAttributes",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346101ad575f60606100146101b1565b828152826020820152826040820152015261002d6101b1565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039082825416179055600160085533905f5416175f55335f52600160205260405f20600160ff1982541617905560018060a01b035f5416604051907fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2601e60035561187d90816101e58239f35b5f80fd5b60405190608082016001600160401b038111838210176101d057604052565b634e487b7160e01b5f52604160045260245ffdfe6080604090808252600480361015610015575f80fd5b5f915f3560e01c90816304c7a7cd1461121b575080630787bc27146111df5780630a763da1146111c1578063124bd04b14610e6757806316c38b3c14610dc35780631f96c1a814610d225780632b4927ee14610cbf57806346e2577a14610c525780635a94a07914610c1b5780635b76b1e61461078e5780635c975abb1461076a5780637b5b1157146106f95780638a355a571461067f5780638da5cb5b14610657578063a436547614610620578063b32c4d8d146105be578063b65e894114610578578063b8221bc414610559578063d58d44c114610374578063da1f12ab14610357578063f2fde38b146102d05763fbd324ce14610113575f80fd5b346102cc5760a03660031901126102cc5760643567ffffffffffffffff938482116102c857366023830112156102c857818301359485116102c857602482019160248636920101116102c857338452600160205260ff8185205416156102b95760ff600254166102aa5733845282602052610194818520546003549061140e565b421061029b576008548452600760205260ff60018286200154161561028c5761025e93946101f961024361024b933389528660205242818a205560085489526007602052882095600287016101ff81546101f96101f236898c611377565b8535611625565b90611567565b9061020a3083611777565b556003870161022a81546101f961022236898c611377565b602435611625565b906102353083611777565b558601948554933691611377565b604435611625565b906102563083611777565b55339061153b565b608435336008547f54a14b443fb0123de02f2dbf6161463037a3021ac5c26a34175f99638b6806008480a480f35b5163680fbce360e01b81529050fd5b5163aa9a98df60e01b81529050fd5b516313d0ff5960e31b81529050fd5b51631a40715960e11b81529050fd5b8380fd5b5080fd5b508234610353576020366003190112610353576102eb611317565b8354926001600160a01b038085169390929190338590036103465750501680926bffffffffffffffffffffffff60a01b161783557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b516330cd747160e01b8152fd5b8280fd5b8284346102cc57816003193601126102cc57602090516127118152f35b5082346103535780600319360112610353576001600160a01b03926024358481168103610555578335825260209460078652838320948554156105475760028601545f805160206118518339815191525486516382027b6d60e01b8082528482019384526001600160a01b03871660208501529098909490911692918990899081906040010381865afa97881561051e579089949392918799610528575b50886104b0575b8861042a575b848989519015158152f35b81015487519384529083019081526001600160a01b039094166020850152949550929390918391908290819060400103915afa9182156104a55791610478575b50908380848180808061041f565b6104989150833d851161049e575b6104908183611355565b81019061173a565b8361046a565b503d610486565b8351903d90823e3d90fd5b600381015488518581528084019182526001600160a01b03881660208301529199509394929391929091829081906040010381865afa90811561051e579089949392918791610501575b5097610419565b6105189150853d871161049e576104908183611355565b8a6104fa565b87513d88823e3d90fd5b610540919950853d871161049e576104908183611355565b978a610412565b8451633b98df6560e01b8152fd5b5f80fd5b8284346102cc57816003193601126102cc576020906003549051908152f35b508290346103535760203660031901126103535760609282913581526006602052209081549160ff60026001830154920154169082519384526020840152151590820152f35b508234610353576020366003190112610353578060c0938335815260076020522080549260ff600183015416926002830154906005600385015493850154940154948151968752151560208701528501526060840152608083015260a0820152f35b508290346103535760203660031901126103535760209282916001600160a01b03610649611317565b168252845220549051908152f35b8284346102cc57816003193601126102cc57905490516001600160a01b039091168152602090f35b508290346103535760203660031901126103535761069b611317565b83546001600160a01b039290831633036106eb5750168083526001602052908220805460ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d98280a280f35b83516330cd747160e01b8152fd5b50829034610353576020366003190112610353578254813591906001600160a01b0316330361075c5750907fa8729c233c4a3c5b8f3a92804b974f11baa011ef22348554834f4e1e98d4b30591600354908060035582519182526020820152a180f35b82516330cd747160e01b8152fd5b8284346102cc57816003193601126102cc5760209060ff6002541690519015158152f35b509134610555575f36600319011261055557335f526001926020906001825260ff835f20541615610c0d5760ff60025416610bff57335f52600582526107da835f20546003549061140e565b4210610bf1576008545f526007825260ff6001845f2001541615610be357335f526005825242835f20556008545f5260078252825f20946002860154936003870154968515610bd3575b8715610bc0575b5f908560018060a01b03976064895f8051602061183183398151915254169186519586938492630afe14ad60e31b84528b84015260249e8f8401528160448401525af1918215610bb6575f92610b85575b5061088e6108c9928683015490611567565b6108983082611777565b60058201556008547f4643801aef3b8371eb3477d75405bc0ea1532bbe076617728e57b91f193116ad5f80a261141b565b6108d281611504565b927f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0090815497805f805160206118518339815191525416803b15610555575f8c610937928b838c8b5196879586948593637d6e912360e11b855284015282018c6114d1565b03925af18015610b7b57610b68575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610b64578451633263b83b60e01b81528781018a90526060818d0152908a90829081838161099e606482018b6114d1565b63124bd04b60e01b604483015203925af18015610b5a57908a91610b42575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852848a2054610b3257888a52875283892083519067ffffffffffffffff94858311610b2057680100000000000000008311610b205789908c84845491818655828210610af0575b50505001908b52888b208b5b838110610adf575050505050610a4d81546113db565b905560085490825194606086019186831090831117610acd5750600295969798508252835284830191825260068184019588875287895252862091518255516001820155019051151560ff80198354169116179055600854907f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c8380a380f35b60418a91634e487b7160e01b5f52525ffd5b825182820155918a01918401610a37565b879150858152868582209384019301905b838210610b12579050869150610a2b565b81558d94508791018f610b01565b634e487b7160e01b8c52604189528c8cfd5b8451633f06d22b60e01b81528790fd5b610b4b9061132d565b610b5657885f6109bd565b8880fd5b85513d8c823e3d90fd5b8980fd5b610b73919a5061132d565b5f985f610946565b86513d5f823e3d90fd5b91508582813d8311610baf575b610b9c8183611355565b810103126105555790519061088e61087c565b503d610b92565b83513d5f823e3d90fd5b96505f610bcb6117de565b97905061082b565b9450610bdd6117de565b94610824565b825163680fbce360e01b8152fd5b825163aa9a98df60e01b8152fd5b82516313d0ff5960e31b8152fd5b8251631a40715960e11b8152fd5b8334610555576020366003190112610555576020906001600160a01b03610c40611317565b165f5260058252805f20549051908152f35b83823461055557602036600319011261055557610c6d611317565b5f546001600160a01b039290831633036106eb57501690815f5260016020525f20600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b50823461055557602036600319011261055557335f52600160205260ff815f20541615610d155781355f526007602052805f2090815415610d0657610d04338361153b565b005b51633b98df6560e01b81529050fd5b51631a40715960e11b8152fd5b508234610555575f366003190112610555575f546001600160a01b031633036103465760ff60025416610db657600854805f52600760205260ff6001835f2001541615610da857600192505f5260076020525f200160ff1981541690556008547f5cff112f1cb588779b4e6aae6baf0d738747fcf132f0ff202adcec605f9cabdf5f80a2005b505163680fbce360e01b8152fd5b516313d0ff5960e31b8152fd5b5082346105555760203660031901126105555781359182151591828403610555575f546001600160a01b03163303610346575050600254908060ff8316151503610e0957005b60ff169060ff1916176002555f14610e41577fab35696f06e428ebc5ceba8cd17f8fed287baf43440206d1943af1ee53e6d2675f80a1005b7f0e5e3b3fb504c22cf5c42fa07d521225937514c654007e1f12646f89768d6f945f80a1005b83823461055557600319916060368401126105555781359067ffffffffffffffff9060243582811161055557610ea090369086016113bd565b9160443590811161055557610eb890369086016113bd565b93835f5260209460068652825f2091600283019160ff8354166111b25783545f5260078852845f208054156111a257610ef3610ef89161141b565b611504565b9860019960018601540361119257875f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808a52865f20541561118257885f528952855f2099865190819b8c918c82549485815201915f528c5f20908d5f905b8682106111655750505050610f709250038b611355565b8651808a0190818b1161115257870180911161113f5790899a88999a928880518092868d519d019c8d81898501610fa692611719565b8201908782015203858101835201610fbe9082611355565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035489516378542ead60e01b81526060888201529586946001600160a01b039092169385938493916110149060648601906114d1565b8285820301602486015261102791611752565b9083820301604484015261103a91611752565b03915a905f91f1908115611135575f91611118575b501561110a5750825192867f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2608086805181010312610555577f7455e3e05c039e7da4ea8ad4731b1aa56b9e838a4a352613fe46512836040eb3956110b86080966113fd565b906110c48382016113fd565b946110dc886110d5606085016113fd565b93016113fd565b94600160ff19825416179055549963ffffffff809681809516895216908701521690840152166060820152a3005b835163cf6c44e960e01b8152fd5b61112f9150893d8b1161049e576104908183611355565b8961104f565b85513d5f823e3d90fd5b601184634e487b7160e01b5f525260245ffd5b601185634e487b7160e01b5f525260245ffd5b8295508396948392945481520195019101928e938e959395610f59565b865163d66ca67560e01b81528490fd5b85516313b304fb60e21b81528390fd5b8551633b98df6560e01b81528390fd5b50835163dbde098160e01b8152fd5b8334610555575f366003190112610555576020906008549051908152f35b8334610555576020366003190112610555576020906001600160a01b03611204611317565b165f526001825260ff815f20541690519015158152f35b82859134610555575f366003190112610555575f546001600160a01b0316330361130b575060ff600254166112fd57600854805f526007602052825f20546112eb575b5060085491825f5260076020525f2091825560018201600160ff198254161790556112876117de565b6112913082611777565b600283015561129e6117de565b6112a83082611777565b60038301556112b56117de565b916112c03084611777565b01556008547fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2005b6112f4906113db565b6008558261125e565b90516313d0ff5960e31b8152fd5b6330cd747160e01b8152fd5b600435906001600160a01b038216820361055557565b67ffffffffffffffff811161134157604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff82111761134157604052565b92919267ffffffffffffffff821161134157604051916113a1601f8201601f191660200184611355565b829481845281830111610555578281602093845f960137010152565b9080601f83011215610555578160206113d893359101611377565b90565b5f1981146113e95760010190565b634e487b7160e01b5f52601160045260245ffd5b519063ffffffff8216820361055557565b919082018092116113e957565b9060405160a0810181811067ffffffffffffffff821117611341576040526004908181526020810193608036863781946002820154908351156114be575260038101548251600110156114ab576040830152828101548251600210156114ab57906005916060840152015491815160031015611498575060800152565b603290634e487b7160e01b5f525260245ffd5b603284634e487b7160e01b5f525260245ffd5b603285634e487b7160e01b5f525260245ffd5b9081518082526020808093019301915f5b8281106114f0575050505090565b8351855293810193928101926001016114e2565b6040516115358161152160208201946040865260608301906114d1565b30604083015203601f198101835282611355565b51902090565b90600461156592611550836002830154611777565b61155e836003830154611777565b0154611777565b565b908115611615575b8015611603575b602090606460018060a01b035f805160206118318339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156115f8575f916115c9575090565b90506020813d6020116115f0575b816115e460209383611355565b81010312610555575190565b3d91506115d7565b6040513d5f823e3d90fd5b50602061160e6117de565b9050611576565b905061161f6117de565b9061156f565b60206116759260018060a01b0392835f805160206118318339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190611752565b6004606483015203925af19182156115f8575f926116e5575b505f805160206118518339815191525416803b1561055557604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156115f8576116dc575090565b6113d89061132d565b9091506020813d602011611711575b8161170160209383611355565b810103126105555751905f61168e565b3d91506116f4565b5f5b83811061172a5750505f910152565b818101518382015260200161171b565b90816020910312610555575180151581036105555790565b9060209161176b81518092818552858086019101611719565b601f01601f1916010190565b5f80516020611851833981519152546001600160a01b031691823b1561055557604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156115f8576117d55750565b6115659061132d565b5f8051602061183183398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156115f8575f916115c957509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type DungeonGenFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DungeonGenFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class DungeonGenFHE__factory extends ContractFactory {
+  constructor(...args: DungeonGenFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DungeonGenFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): DungeonGenFHE__factory {
+    return super.connect(runner) as DungeonGenFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DungeonGenFHEInterface {
+    return new Interface(_abi) as DungeonGenFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): DungeonGenFHE {
+    return new Contract(address, _abi, runner) as unknown as DungeonGenFHE;
+  }
+}
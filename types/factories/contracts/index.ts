@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as dungeonGenFheSol from "./Dungeon_Gen_FHE.sol";
+export * as mocks from "./mocks";
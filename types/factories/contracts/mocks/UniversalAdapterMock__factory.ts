@@ -0,0 +1,148 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  UniversalAdapterMock,
+  UniversalAdapterMockInterface,
+} from "../../../contracts/mocks/UniversalAdapterMock";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "DataStored",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "getData",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "setData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657610404908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa146101a157508063856c71dd146101865763ae55c88814610040575f80fd5b3461018257602091826003193601126101825767ffffffffffffffff92813584811161018257610074829136908501610371565b9190828651938492833781015f8152030190209083519283925f90805461009a8161039f565b91828752600191866001821691825f1461016457505060011461012d575b505050601f80199586920301168301958387109087111761011a57509084929183855280845281519182828601525f5b8381106101045750505f84830186015250601f01168101030190f35b81810183015188820188015287955082016100e8565b604190634e487b7160e01b5f525260245ffd5b5f9081528581209093505b82841061014e57505050830182015f80806100b8565b8054888501870152879650928501928101610138565b93509450505060ff191682860152151560051b8401015f80806100b8565b5f80fd5b5034610182575f366003190112610182576020905160018152f35b83833461018257806003193601126101825767ffffffffffffffff908235828111610182576101d39036908501610371565b9290602435828111610182576101ec9036908701610371565b92909585838937878681015f81526020998a910301902091841161011a5750610215815461039f565b601f811161032e575b505f601f84116001146102a2577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782969792849261029295610283935f91610297575b508460011b905f198660031b1c19161790555b85519686889788528701916103d7565b918483039085015233966103d7565b0390a2005b90508a01358b610260565b601f19841690825f52885f20915f5b818110610317575092610283927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a9592876102929896106102fe575b5050600184811b019055610273565b8b01355f19600387901b60f8161c191690558a806102ef565b91928a60018192868d0135815501940192016102b1565b815f52875f20601f850160051c810191898610610367575b601f0160051c01905b81811061035c575061021e565b5f815560010161034f565b9091508190610346565b9181601f840112156101825782359167ffffffffffffffff8311610182576020838186019501011161018257565b90600182811c921680156103cd575b60208310146103b957565b634e487b7160e01b5f52602260045260245ffd5b91607f16916103ae565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
+
+type UniversalAdapterMockConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: UniversalAdapterMockConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class UniversalAdapterMock__factory extends ContractFactory {
+  constructor(...args: UniversalAdapterMockConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      UniversalAdapterMock & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): UniversalAdapterMock__factory {
+    return super.connect(runner) as UniversalAdapterMock__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): UniversalAdapterMockInterface {
+    return new Interface(_abi) as UniversalAdapterMockInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): UniversalAdapterMock {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as UniversalAdapterMock;
+  }
+}
@@ -22,5 +22,7 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { DungeonGenFHE } from "./contracts/Dungeon_Gen_FHE.sol/DungeonGenFHE";
+export { DungeonGenFHE__factory } from "./factories/contracts/Dungeon_Gen_FHE.sol/DungeonGenFHE__factory";
+export type { UniversalAdapterMock } from "./contracts/mocks/UniversalAdapterMock";
+export { UniversalAdapterMock__factory } from "./factories/contracts/mocks/UniversalAdapterMock__factory";